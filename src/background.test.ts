@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import type { Group } from './types';
+import { buildPhraseMap } from './content';
+import { loadSerializedPhrases, type SerializedPhrases } from './matcher';
+
+const mocks = vi.hoisted(() => ({
+  addMessageListener: vi.fn(),
+  getGroups: vi.fn(),
+}));
+
+vi.mock('./browserApi', () => ({
+  browserAPI: {
+    tabs: { onUpdated: { addListener: vi.fn() } },
+    runtime: { onMessage: { addListener: mocks.addMessageListener } },
+    storage: {},  // No session storage: compiled phrases are only cached in memory
+  },
+  getGroups: mocks.getGroups,
+  getDomains: vi.fn().mockResolvedValue([]),
+  getEnabled: vi.fn().mockResolvedValue(false),
+  getDebugMode: vi.fn().mockResolvedValue(false),
+  hasPermissions: vi.fn(),
+  requestPermissions: vi.fn(),
+  onStorageChanged: vi.fn(),
+}));
+
+const group = (id: string, fields: Partial<Group>): Group => ({
+  id,
+  name: id,
+  enabled: true,
+  lightBgColor: '#00ff00',
+  lightTextColor: '#000000',
+  darkBgColor: '#00ff00',
+  darkTextColor: '#000000',
+  phrases: [],
+  ...fields,
+});
+
+describe('Background - Precompiled Phrases', () => {
+  // "Go" is case-insensitive in the first group, but exact in the one the domain uses
+  const languages = group('languages', { phrases: ['Go', 'Rust'], caseMode: 'insensitive' });
+  const jobs = group('jobs', { phrases: ['Go', 'remote'], caseMode: 'sensitive' });
+
+  let requestPhrases: (groupIds: string[]) => Promise<SerializedPhrases | null>;
+
+  beforeAll(async () => {
+    mocks.getGroups.mockResolvedValue([languages, jobs]);
+    await import('./background');
+    const [onMessage] = mocks.addMessageListener.mock.calls[0];
+    requestPhrases = groupIds => new Promise(resolve => {
+      onMessage({ type: 'getSerializedPhrases', groupIds }, {}, (response: { phrases: SerializedPhrases | null }) => {
+        resolve(response.phrases);
+      });
+    });
+  });
+
+  it('should compile the phrases of the groups a page uses', async () => {
+    const phrases = await requestPhrases(['languages', 'jobs']);
+
+    expect(loadSerializedPhrases(buildPhraseMap([languages, jobs], 'light'), phrases!)).toBe(true);
+  });
+
+  it('should compile a domain\'s subset of groups with that subset\'s phrase settings', async () => {
+    const allGroups = await requestPhrases(['languages', 'jobs']);
+    const jobsOnly = await requestPhrases(['jobs']);
+
+    expect(loadSerializedPhrases(buildPhraseMap([jobs], 'light'), allGroups!)).toBe(false);
+    expect(loadSerializedPhrases(buildPhraseMap([jobs], 'light'), jobsOnly!)).toBe(true);
+  });
+
+  it('should reuse the phrases compiled for a group set', async () => {
+    const first = await requestPhrases(['jobs']);
+    await requestPhrases(['languages']);
+
+    expect(await requestPhrases(['jobs'])).toBe(first);
+  });
+});
@@ -1,10 +1,12 @@
 // Background service worker for dynamic content script injection
 // Only injects on domains that the user has configured
 
-import type { Domain } from './types';
+import type { Domain, Group } from './types';
+import { serializePhrases, type PhraseMap, type SerializedPhrases } from './matcher';
 import {
   browserAPI,
   getDomains,
+  getGroups,
   hasPermissions,
   requestPermissions,
   onStorageChanged,
@@ -178,6 +180,125 @@ onStorageChanged(async (changes) => {
   }
 });
 
+// ============================================================================
+// Precompiled Phrases
+// ============================================================================
+
+// Compiled once per set of active groups and shared with content scripts, so each page
+// load (and settings change) doesn't rebuild the automata for thousands of phrases.
+// Domains limited to some groups get their own set: a phrase's settings come from the
+// first group that has it, which can differ from the full list's
+// Kept in session storage too, as the service worker doesn't live for long
+const SERIALIZED_PHRASES_KEY = 'serializedPhrases';
+const MAX_CACHED_PHRASE_SETS = 8;
+
+interface CachedPhrases {
+  revision: string;
+  phrases: SerializedPhrases;
+}
+
+let cachedPhrases: CachedPhrases[] = [];  // Most recently used first
+
+// The given enabled groups' phrases with the settings the automata depend on. Like the
+// content script's phrase map, the first group with a phrase decides them
+function automatonPhraseMap(groups: Group[]): PhraseMap {
+  const phraseMap: PhraseMap = new Map();
+  for (const group of groups) {
+    if (!group.enabled) continue;
+    for (const phrase of group.phrases) {
+      if (phraseMap.has(phrase)) continue;
+      phraseMap.set(phrase, {
+        bgColor: '',
+        textColor: '',
+        caseMode: group.phraseCaseModes?.[phrase] ?? group.caseMode,
+        regex: group.useRegex,
+        ignoreAccents: group.ignoreAccents,
+      });
+    }
+  }
+  return phraseMap;
+}
+
+// Identifies a phrase map's automata (FNV-1a over its phrases and settings)
+function phraseMapRevision(phraseMap: PhraseMap): string {
+  let hash = 0x811c9dc5;
+  for (const [phrase, info] of phraseMap) {
+    const entry = `${phrase}\u0000${info.caseMode ?? ''}\u0000${info.ignoreAccents ? 1 : 0}${info.regex ? 1 : 0}\u0001`;
+    for (let i = 0; i < entry.length; i++) {
+      hash = Math.imul(hash ^ entry.charCodeAt(i), 0x01000193);
+    }
+  }
+  return `${phraseMap.size}:${(hash >>> 0).toString(36)}`;
+}
+
+// Session storage keeps compiled phrases across service worker restarts, but only as a
+// cache: without it (older browsers) or when it fails, the phrases are compiled again
+async function readStoredPhrases(): Promise<CachedPhrases[]> {
+  try {
+    const stored = await browserAPI.storage.session?.get(SERIALIZED_PHRASES_KEY);
+    const phrases = stored?.[SERIALIZED_PHRASES_KEY];
+    return Array.isArray(phrases) ? phrases as CachedPhrases[] : [];
+  } catch (error) {
+    console.log('[MakeItPop Background] Could not read compiled phrases:', error);
+    return [];
+  }
+}
+
+async function storePhrases(phrases: CachedPhrases[]): Promise<void> {
+  try {
+    await browserAPI.storage.session?.set({ [SERIALIZED_PHRASES_KEY]: phrases });
+  } catch (error) {
+    // Content scripts still get the phrases if they don't fit in session storage
+    console.log('[MakeItPop Background] Could not store compiled phrases:', error);
+  }
+}
+
+// Move the phrases to the front of the cache, dropping the least recently used sets
+function rememberPhrases(cached: CachedPhrases[], phrases: CachedPhrases): CachedPhrases[] {
+  return [phrases, ...cached.filter(entry => entry.revision !== phrases.revision)].slice(0, MAX_CACHED_PHRASE_SETS);
+}
+
+// The automata for the active groups with these IDs (a page's domain may not use them all)
+async function getSerializedPhrases(groupIds: string[]): Promise<SerializedPhrases> {
+  const groups = (await getGroups()).filter(group => groupIds.includes(group.id));
+  const phraseMap = automatonPhraseMap(groups);
+  const revision = phraseMapRevision(phraseMap);
+  const cached = cachedPhrases.find(entry => entry.revision === revision);
+  if (cached) {
+    cachedPhrases = rememberPhrases(cachedPhrases, cached);
+    return cached.phrases;
+  }
+
+  const stored = await readStoredPhrases();
+  const storedEntry = stored.find(entry => entry.revision === revision);
+  if (storedEntry) {
+    cachedPhrases = rememberPhrases(stored, storedEntry);
+    return storedEntry.phrases;
+  }
+
+  const startTime = performance.now();
+  const compiled = { revision, phrases: serializePhrases(phraseMap) };
+  console.log(`[MakeItPop Background] Compiled ${phraseMap.size} phrases in ${(performance.now() - startTime).toFixed(0)}ms`);
+  cachedPhrases = rememberPhrases(stored.length > 0 ? stored : cachedPhrases, compiled);
+  storePhrases(cachedPhrases);
+  return compiled.phrases;
+}
+
+// The matcher worker's code, for content scripts to start the worker from. They can't
+// fetch it themselves unless it's web accessible, which would let any page detect the
+// extension by fetching it too
+let matcherWorkerSource: Promise<string> | null = null;
+
+function getMatcherWorkerSource(): Promise<string> {
+  matcherWorkerSource ??= fetch(browserAPI.runtime.getURL('matcherWorker.js'))
+    .then(response => response.text())
+    .catch((error: unknown) => {
+      matcherWorkerSource = null;  // Try again next time
+      throw error;
+    });
+  return matcherWorkerSource;
+}
+
 // Handle messages from settings page or popup to request permissions
 browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'requestPermission') {
@@ -206,6 +327,29 @@ browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  // Content scripts ask for their groups' compiled phrases each time they read the settings
+  if (message.type === 'getSerializedPhrases') {
+    getSerializedPhrases(Array.isArray(message.groupIds) ? message.groupIds : []).then(
+      phrases => sendResponse({ phrases }),
+      error => {
+        console.log('[MakeItPop Background] Could not compile phrases:', error);
+        sendResponse({ phrases: null });
+      }
+    );
+    return true;
+  }
+
+  if (message.type === 'getMatcherWorkerSource') {
+    getMatcherWorkerSource().then(
+      source => sendResponse({ source }),
+      error => {
+        console.log('[MakeItPop Background] Could not read the matcher worker:', error);
+        sendResponse({ source: null });
+      }
+    );
+    return true;
+  }
+
   if (message.type === 'ping') {
     sendResponse({ pong: true });
     return true;
@@ -1,6 +1,22 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { collectTextNodes, highlightNodes } from './content';
-import type { PhraseMap } from './matcher';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  collectTextNodes,
+  highlightNodes,
+  clearAllHighlights,
+  buildPhraseMap,
+  buildProximityRules,
+  buildGroupTrigger,
+  isTriggered,
+  highlightNodesInWorker,
+  highlightNodesSliced,
+  highlightPageNodes,
+  updateHighlights,
+  updateScoreBadges,
+  addedTextNodes,
+} from './content';
+import type { Group, OverlapStrategy, ProximityRule } from './types';
+import { findMatches, type PhraseMap } from './matcher';
+import { MatcherWorkerClient } from './matcherWorkerClient';
 
 const GREEN = { bgColor: '#00ff00', textColor: '#000000' };
 const RED = { bgColor: '#ff0000', textColor: '#ffffff' };
@@ -98,4 +114,769 @@ describe('Content Script - Highlighting', () => {
     expect(count).toBe(1);
     expect(highlightedTexts(container)).toEqual(['secret']);
   });
+
+  it('should style fuzzy matches differently from exact ones', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['kubernetes', { ...GREEN, fuzzyDistance: 1 }],
+    ]);
+
+    container.innerHTML = '<p>kubernetes and kubernets</p>';
+
+    highlightNodes(collectTextNodes(container), phraseMap);
+    const [exact, fuzzy] = Array.from(container.querySelectorAll<HTMLElement>('[data-makeitpop]'));
+    expect(exact.style.outlineStyle).toBe('');
+    expect(fuzzy.style.outlineStyle).toBe('dashed');
+    expect(fuzzy.title).toBe('Close match for "kubernetes"');
+  });
+});
+
+describe('Content Script - Matching Across Elements', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('should highlight phrases split across inline elements', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['code review', GREEN],
+    ]);
+
+    container.innerHTML = '<p>Do a code <b>review</b> and a <a href="#">code</a> review</p>';
+
+    const count = highlightNodes(collectTextNodes(container), phraseMap, { matchAcrossElements: true });
+    expect(count).toBe(2);
+    expect(highlightedTexts(container)).toEqual(['code ', 'review', 'code', ' review']);
+
+    // The spans of one match share an id, different matches don't
+    const ids = Array.from(container.querySelectorAll('[data-makeitpop]'))
+      .map(span => span.getAttribute('data-makeitpop-match'));
+    expect(ids[0]).toBe(ids[1]);
+    expect(ids[2]).toBe(ids[3]);
+    expect(ids[0]).not.toBe(ids[2]);
+  });
+
+  it('should restore the original DOM when highlights are cleared', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['code review', GREEN],
+    ]);
+
+    const html = '<p>Do a code <b>review</b> today</p>';
+    container.innerHTML = html;
+
+    highlightNodes(collectTextNodes(container), phraseMap, { matchAcrossElements: true });
+    expect(container.innerHTML).not.toBe(html);
+
+    clearAllHighlights();
+    expect(container.innerHTML).toBe(html);
+  });
+
+  it('should render nested matches as nested spans and clear them', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['security', { ...RED, priority: 0 }],
+      ['security issue', { ...GREEN, priority: 1 }],
+    ]);
+
+    const html = '<p>A security issue here</p>';
+    container.innerHTML = html;
+
+    const count = highlightNodes(collectTextNodes(container), phraseMap, { overlapStrategy: 'nested' });
+    expect(count).toBe(2);
+
+    const outer = container.querySelector<HTMLElement>('p > [data-makeitpop]')!;
+    const inner = outer.querySelector<HTMLElement>('[data-makeitpop]')!;
+    expect(outer.textContent).toBe('security issue');
+    expect(inner.textContent).toBe('security');
+    expect(inner.getAttribute('data-makeitpop-depth')).toBe('1');
+
+    clearAllHighlights();
+    expect(container.innerHTML).toBe(html);
+  });
+
+  it('should not join text across block elements or line breaks', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['code review', GREEN],
+    ]);
+
+    container.innerHTML = '<div><p>code</p><p>review</p>code<br>review</div>';
+
+    const count = highlightNodes(collectTextNodes(container), phraseMap, { matchAcrossElements: true });
+    expect(count).toBe(0);
+  });
+
+  it('should only match across elements when asked to', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['code review', GREEN],
+    ]);
+
+    container.innerHTML = '<p>code <b>review</b></p>';
+
+    const count = highlightNodes(collectTextNodes(container), phraseMap);
+    expect(count).toBe(0);
+  });
+});
+
+describe('Content Script - Group Priority', () => {
+  const group = (name: string, bgColor: string, phrases: string[]): Group => ({
+    id: name,
+    name,
+    enabled: true,
+    lightBgColor: bgColor,
+    lightTextColor: '#000000',
+    darkBgColor: bgColor,
+    darkTextColor: '#ffffff',
+    phrases,
+  });
+
+  it('should give duplicate phrases to the first group', () => {
+    const phraseMap = buildPhraseMap([
+      group('First', '#00ff00', ['remote', 'hybrid']),
+      group('Second', '#ff0000', ['remote']),
+    ], 'light');
+
+    expect(phraseMap.get('remote')).toMatchObject({ bgColor: '#00ff00', priority: 0 });
+    expect(phraseMap.get('hybrid')).toMatchObject({ priority: 0 });
+  });
+
+  it('should rank later groups lower', () => {
+    const phraseMap = buildPhraseMap([
+      group('First', '#00ff00', ['review']),
+      group('Second', '#ff0000', ['code review']),
+    ], 'dark');
+
+    expect(phraseMap.get('code review')).toMatchObject({ bgColor: '#ff0000', textColor: '#ffffff', priority: 1 });
+  });
+});
+
+describe('Content Script - Proximity Rules', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  const highlightWithRules = (html: string, proximityRules: ProximityRule[]): string[] => {
+    const groups: Group[] = [{
+      id: 'jobs',
+      name: 'Jobs',
+      enabled: true,
+      lightBgColor: '#00ff00',
+      lightTextColor: '#000000',
+      darkBgColor: '#00ff00',
+      darkTextColor: '#000000',
+      phrases: ['remote', 'salary'],
+      proximityRules,
+    }];
+
+    container.innerHTML = html;
+    highlightNodes(collectTextNodes(container), buildPhraseMap(groups, 'light'), {
+      proximityRules: buildProximityRules(groups),
+    });
+    return highlightedTexts(container);
+  };
+
+  it('should only highlight a phrase when its nearby phrase is within N words', () => {
+    const rules: ProximityRule[] = [{ phrase: 'remote', near: 'US only', scope: 'words', words: 3 }];
+
+    expect(highlightWithRules('<p>Remote role, <b>US only</b>. Good salary</p>', rules))
+      .toEqual(['Remote', 'salary']);
+    expect(highlightWithRules('<p>Remote role with a great team and a good salary, US only</p>', rules))
+      .toEqual(['salary']);
+  });
+
+  it('should check the same element scope per block element', () => {
+    const rules: ProximityRule[] = [{ phrase: 'remote', near: 'US only', scope: 'element' }];
+
+    expect(highlightWithRules('<li>Remote role with a great team and a good salary, US only</li>', rules))
+      .toEqual(['Remote', 'salary']);
+    expect(highlightWithRules('<p>Remote role</p><p>US only</p>', rules))
+      .toEqual([]);
+  });
+
+  it('should ignore rules for phrases another group owns', () => {
+    const rules = buildProximityRules([
+      { id: 'a', name: 'A', enabled: true, lightBgColor: '', lightTextColor: '', darkBgColor: '', darkTextColor: '', phrases: ['remote'] },
+      {
+        id: 'b', name: 'B', enabled: true, lightBgColor: '', lightTextColor: '', darkBgColor: '', darkTextColor: '', phrases: ['remote'],
+        proximityRules: [{ phrase: 'remote', near: 'US only', scope: 'element' }],
+      },
+    ]);
+
+    expect(rules.size).toBe(0);
+  });
+});
+
+describe('Content Script - Group Triggers', () => {
+  const group = (triggers?: Group['triggers'], options: Partial<Group> = {}): Group => ({
+    id: 'jobs',
+    name: 'Jobs',
+    enabled: true,
+    lightBgColor: '#00ff00',
+    lightTextColor: '#000000',
+    darkBgColor: '#00ff00',
+    darkTextColor: '#000000',
+    phrases: ['remote'],
+    triggers,
+    ...options,
+  });
+
+  it('should not need a trigger for groups without one', () => {
+    expect(buildGroupTrigger(group())).toBeNull();
+    expect(buildGroupTrigger(group({ phrases: [], titles: [] }))).toBeNull();
+  });
+
+  it('should trigger when the page text contains a trigger phrase', () => {
+    const trigger = buildGroupTrigger(group({ phrases: ['job description'] }))!;
+
+    expect(isTriggered(trigger, 'About us\nJob Description: build things', 'Careers')).toBe(true);
+    expect(isTriggered(trigger, 'About us\nOur description of the job', 'Careers')).toBe(false);
+  });
+
+  it('should trigger when the page title matches a title pattern', () => {
+    const trigger = buildGroupTrigger(group({ titles: ['/\\bhiring\\b/i', 'careers'] }, { useRegex: true }))!;
+
+    expect(isTriggered(trigger, 'job description', 'Acme')).toBe(false);
+    expect(isTriggered(trigger, '', 'We are Hiring!')).toBe(true);
+    expect(isTriggered(trigger, '', 'Careers at Acme')).toBe(true);
+  });
+});
+
+describe('Content Script - Matching in a Worker', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  // Stands in for the worker: same matcher, answered asynchronously
+  const fakeWorker = (beforeReply: () => void = () => {}) => {
+    let phraseMap: PhraseMap = new Map();
+    let overlapStrategy: OverlapStrategy | undefined;
+    return {
+      configure: (map: PhraseMap, strategy: OverlapStrategy | undefined) => {
+        phraseMap = map;
+        overlapStrategy = strategy;
+      },
+      match: async (texts: string[]) => {
+        beforeReply();
+        return texts.map(text => findMatches(text, phraseMap, { overlapStrategy }));
+      },
+    } as unknown as MatcherWorkerClient;
+  };
+
+  const phraseMap: PhraseMap = new Map([
+    ['code review', { ...GREEN }],
+    ['security', { ...RED, priority: 0 }],
+    ['security issue', { ...GREEN, priority: 1 }],
+  ]);
+  const html = '<p>A <a href="#">code</a> review found a security issue</p><ul><li>code review</li><li>none</li></ul>';
+
+  it('should highlight exactly what the main-thread path does', async () => {
+    const options = { matchAcrossElements: true, overlapStrategy: 'nested' as const };
+
+    container.innerHTML = html;
+    const expectedCount = highlightNodes(collectTextNodes(container), phraseMap, options);
+    const expected = container.innerHTML.replace(/ data-makeitpop-match="\d+"/g, '');
+
+    container.innerHTML = html;
+    const count = await highlightNodesInWorker(collectTextNodes(container), phraseMap, options, fakeWorker());
+
+    expect(count).toBe(expectedCount);
+    expect(container.innerHTML.replace(/ data-makeitpop-match="\d+"/g, '')).toBe(expected);
+  });
+
+  it('should match text again if it changed while the worker was busy', async () => {
+    container.innerHTML = '<p>nothing here</p>';
+    const paragraph = container.querySelector('p')!;
+
+    const count = await highlightNodesInWorker(collectTextNodes(container), phraseMap, {}, fakeWorker(() => {
+      paragraph.firstChild!.textContent = 'a security issue';
+    }));
+
+    expect(count).toBe(1);
+    expect(highlightedTexts(container)).toEqual(['security']);
+  });
+
+  describe('when the page blocks the worker', () => {
+    beforeEach(() => {
+      (chrome as any).runtime = { sendMessage: vi.fn().mockResolvedValue({ source: 'self.onmessage = () => {}' }) };
+      vi.stubGlobal('URL', Object.assign(class extends URL {}, {
+        createObjectURL: vi.fn(() => 'blob:worker'),
+        revokeObjectURL: vi.fn(),
+      }));
+    });
+
+    afterEach(() => {
+      delete (chrome as any).runtime;
+      vi.unstubAllGlobals();
+    });
+
+    it('should match on the main thread when the worker is refused', async () => {
+      // What a worker-src Content Security Policy does in Chrome
+      vi.stubGlobal('Worker', class {
+        constructor() {
+          throw new DOMException('Refused to create a worker', 'SecurityError');
+        }
+      });
+      container.innerHTML = html;
+
+      const count = await highlightPageNodes(collectTextNodes(container), phraseMap, { matchInWorker: true }, () => MatcherWorkerClient.start());
+
+      expect(count).toBe(2);
+      expect(highlightedTexts(container)).toEqual(['security', 'code review']);
+    });
+
+    it('should match on the main thread when the worker fails to load', async () => {
+      const terminate = vi.fn();
+      vi.stubGlobal('Worker', class extends EventTarget {
+        postMessage() {
+          setTimeout(() => this.dispatchEvent(new Event('error')));
+        }
+        terminate = terminate;
+      });
+      container.innerHTML = html;
+
+      const count = await highlightPageNodes(collectTextNodes(container), phraseMap, { matchInWorker: true }, () => MatcherWorkerClient.start());
+
+      expect(terminate).toHaveBeenCalled();
+      expect(count).toBe(2);
+      expect(highlightedTexts(container)).toEqual(['security', 'code review']);
+    });
+  });
+});
+
+describe('Content Script - Time Slicing', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+    vi.unstubAllGlobals();
+  });
+
+  const phraseMap: PhraseMap = new Map([
+    ['first', { ...GREEN }],
+    ['second', { ...RED }],
+    ['third', { ...GREEN }],
+  ]);
+  const html = '<p>the first one</p><p>the <b>second</b> one</p><p>the third one</p>';
+
+  it('should highlight exactly what the one-pass path does', async () => {
+    container.innerHTML = html;
+    const expectedCount = highlightNodes(collectTextNodes(container), phraseMap);
+    const expected = container.innerHTML;
+
+    container.innerHTML = html;
+    const count = await highlightNodesSliced(collectTextNodes(container), phraseMap);
+
+    expect(count).toBe(expectedCount);
+    expect(container.innerHTML).toBe(expected);
+  });
+
+  it('should highlight text near the viewport first', async () => {
+    // Reports only the <b> as near the viewport
+    vi.stubGlobal('IntersectionObserver', class {
+      private targets: Element[] = [];
+      constructor(private callback: (entries: Partial<IntersectionObserverEntry>[]) => void) {}
+      observe(target: Element) {
+        if (this.targets.push(target) === 1) {
+          setTimeout(() => this.callback(this.targets.map(element => ({
+            target: element,
+            isIntersecting: element.tagName === 'B',
+          }))));
+        }
+      }
+      unobserve() {}
+      disconnect() {}
+    });
+
+    container.innerHTML = html;
+    const order: string[] = [];
+    const recorder = new MutationObserver(records => {
+      for (const record of records) {
+        record.addedNodes.forEach(node => {
+          if (node instanceof Element && node.hasAttribute('data-makeitpop')) order.push(node.textContent || '');
+        });
+      }
+    });
+    recorder.observe(container, { childList: true, subtree: true });
+
+    const count = await highlightNodesSliced(collectTextNodes(container), phraseMap);
+    await Promise.resolve();  // Let the recorder see the last changes
+    recorder.disconnect();
+
+    expect(count).toBe(3);
+    expect(order).toEqual(['second', 'first', 'third']);
+  });
+
+  it('should not hand the observer the text left around highlights', async () => {
+    const exclusions: PhraseMap = new Map([['A/B test', { ...GREEN }]]);
+    const excluding: PhraseMap = new Map([
+      ['A/B', { ...GREEN }],
+      ['test', { ...RED, exclusions }],
+    ]);
+    container.innerHTML = '<p>A/B test here</p>';
+    const records: MutationRecord[] = [];
+    const observer = new MutationObserver(batch => records.push(...batch));
+    observer.observe(container, { childList: true, subtree: true });
+
+    await highlightNodesSliced(collectTextNodes(container), excluding);
+    const added = addedTextNodes([...records, ...observer.takeRecords()]);
+    highlightNodes(added, excluding);
+    observer.disconnect();
+
+    expect(added).toEqual([]);
+    expect(highlightedTexts(container)).toEqual(['A/B']);
+  });
+
+  it('should still hand the observer text the page adds', () => {
+    const observer = new MutationObserver(() => {});
+    observer.observe(container, { childList: true, subtree: true });
+    container.innerHTML = '<p>the first one</p>';
+    const added = addedTextNodes(observer.takeRecords());
+    observer.disconnect();
+
+    expect(added.map(node => node.textContent)).toEqual(['the first one']);
+  });
+});
+
+describe('Content Script - Settings Changes', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  const html = '<p>Remote (US) role</p><p>Senior engineer</p>';
+  const highlighted = (phraseMap: PhraseMap): string => {
+    container.innerHTML = html;
+    highlightNodes(collectTextNodes(container), phraseMap);
+    return container.innerHTML;
+  };
+
+  it('should recolor highlights in place when only colors change', async () => {
+    const previous: PhraseMap = new Map([['senior', GREEN]]);
+    const next: PhraseMap = new Map([['senior', RED]]);
+    highlighted(previous);
+    const span = container.querySelector('[data-makeitpop]') as HTMLElement;
+
+    const added = await updateHighlights(container, { phraseMap: previous, options: {} }, { phraseMap: next, options: {} });
+
+    expect(added).toBe(0);
+    expect(container.querySelector('[data-makeitpop]')).toBe(span);
+    expect(span.style.backgroundColor).toBe('rgb(255, 0, 0)');
+  });
+
+  it('should only highlight again where added or removed phrases are', async () => {
+    const previous: PhraseMap = new Map([
+      ['Remote (US)', { ...GREEN, priority: 0 }],
+      ['remote', { ...RED, priority: 1 }],
+      ['senior', { ...GREEN, priority: 1 }],
+    ]);
+    const next: PhraseMap = new Map([
+      ['remote', { ...RED, priority: 1 }],
+      ['senior', { ...GREEN, priority: 1 }],
+      ['role', { ...RED, priority: 2 }],
+    ]);
+    const expected = highlighted(next);
+    highlighted(previous);
+    const untouched = container.querySelectorAll('[data-makeitpop]')[1];
+
+    const added = await updateHighlights(container, { phraseMap: previous, options: {} }, { phraseMap: next, options: {} });
+
+    expect(added).toBe(2);
+    expect(container.innerHTML).toBe(expected);
+    expect(untouched.isConnected).toBe(true);
+  });
+
+  it('should let an added phrase take over a highlight it outranks', async () => {
+    const previous: PhraseMap = new Map([['remote', { ...RED, priority: 1 }]]);
+    const next: PhraseMap = new Map([
+      ['Remote (US)', { ...GREEN, priority: 0 }],
+      ['remote', { ...RED, priority: 1 }],
+    ]);
+    const expected = highlighted(next);
+    highlighted(previous);
+
+    await updateHighlights(container, { phraseMap: previous, options: {} }, { phraseMap: next, options: {} });
+
+    expect(container.innerHTML).toBe(expected);
+  });
+
+  it('should leave the page alone when matching options change', async () => {
+    const phraseMap: PhraseMap = new Map([['senior', GREEN]]);
+    const before = highlighted(phraseMap);
+
+    const added = await updateHighlights(
+      container,
+      { phraseMap, options: {} },
+      { phraseMap, options: { matchAcrossElements: true } }
+    );
+
+    expect(added).toBeNull();
+    expect(container.innerHTML).toBe(before);
+  });
+});
+
+describe('Content Script - Score Badges', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  const group = (name: string, phrases: string[], weights: Pick<Group, 'weight' | 'phraseWeights'>): Group => ({
+    id: name,
+    name,
+    enabled: true,
+    lightBgColor: '#00ff00',
+    lightTextColor: '#000000',
+    darkBgColor: '#00ff00',
+    darkTextColor: '#ffffff',
+    phrases,
+    ...weights,
+  });
+
+  const phraseMap = buildPhraseMap([
+    group('Good', ['remote', 'senior'], { weight: 3, phraseWeights: { senior: 1 } }),
+    group('Bad', ['unpaid'], { weight: -5 }),
+    group('Unscored', ['engineer'], {}),
+  ], 'light');
+
+  const scoreCards = (html: string, options = {}): HTMLElement[] => {
+    container.innerHTML = html;
+    highlightNodes(collectTextNodes(container), phraseMap, options);
+    updateScoreBadges(container, phraseMap, { container: '.card' });
+    return Array.from(container.querySelectorAll<HTMLElement>('[data-makeitpop="badge"]'));
+  };
+
+  it('should show the total weight of each container\'s matches', () => {
+    const badges = scoreCards(
+      '<div class="card">Senior remote engineer</div>' +
+      '<div class="card">Unpaid remote internship</div>' +
+      '<div class="card">Engineer</div>'
+    );
+
+    expect(badges.map(badge => badge.textContent)).toEqual(['+4', '−2']);
+    expect(badges[0].parentElement).toBe(container.querySelector('.card'));
+    expect(badges[0].title).toBe('Make It Pop score: senior +1, remote +3');
+  });
+
+  it('should color badges by the thresholds', () => {
+    container.innerHTML = '<div class="card">Remote</div><div class="card">Unpaid</div><div class="card">Remote, unpaid, senior</div>';
+    highlightNodes(collectTextNodes(container), phraseMap);
+    updateScoreBadges(container, phraseMap, { container: '.card', goodAt: 3, badAt: -3 });
+
+    const levels = Array.from(container.querySelectorAll('[data-makeitpop="badge"]'))
+      .map(badge => badge.getAttribute('data-makeitpop-level'));
+    expect(levels).toEqual(['good', 'bad', 'neutral']);
+  });
+
+  it('should count a match across elements once', () => {
+    const badges = scoreCards('<div class="card">re<b>mote</b></div>', { matchAcrossElements: true });
+
+    expect(container.querySelectorAll('[data-makeitpop-phrase]')).toHaveLength(2);
+    expect(badges[0].textContent).toBe('+3');
+  });
+
+  it('should keep badges out of highlighting and remove them with the highlights', () => {
+    scoreCards('<div class="card">Remote</div>');
+    updateScoreBadges(container, phraseMap, { container: '.card' });
+
+    expect(container.querySelectorAll('[data-makeitpop="badge"]')).toHaveLength(1);
+    expect(collectTextNodes(container).map(node => node.textContent)).toEqual([]);
+
+    clearAllHighlights();
+    expect(container.innerHTML).toBe('<div class="card">Remote</div>');
+  });
+});
+
+describe('Content Script - Group Actions', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  const phraseMap: PhraseMap = new Map([
+    ['spoiler', { ...RED, action: 'blur' as const }],
+    ['promoted', { ...RED, action: 'hide' as const }],
+    ['sponsored', { ...GREEN, action: 'outline-container' as const }],
+    ['remote', { ...GREEN }],
+  ]);
+
+  const post = (text: string) => `<article class="post"><p>${text}</p></article>`;
+
+  it('should apply the action to the nearest action container', () => {
+    container.innerHTML = post('Big spoiler ahead') + post('Remote role');
+    highlightNodes(collectTextNodes(container), phraseMap, { actionContainer: '.post' });
+
+    const [first, second] = Array.from(container.querySelectorAll<HTMLElement>('.post'));
+    expect(first.getAttribute('data-makeitpop-action')).toBe('blur');
+    expect(first.firstElementChild?.getAttribute('data-makeitpop')).toBe('control');
+    expect(first.querySelector('p')!.style.getPropertyValue('filter')).toBe('blur(6px)');
+    expect(first.style.getPropertyValue('filter')).toBe('');
+    expect(second.hasAttribute('data-makeitpop-action')).toBe(false);
+    expect(highlightedTexts(container)).toContain('Remote');
+  });
+
+  it('should use the paragraph without an action container, and the strongest action', () => {
+    container.innerHTML = post('Sponsored and promoted');
+    highlightNodes(collectTextNodes(container), phraseMap);
+
+    const paragraph = container.querySelector('p')!;
+    const [control, text] = Array.from(paragraph.children) as HTMLElement[];
+    expect(paragraph.getAttribute('data-makeitpop-action')).toBe('hide');
+    expect(control.getAttribute('data-makeitpop')).toBe('control');
+    expect(text.style.getPropertyValue('display')).toBe('none');
+    expect(text.textContent).toBe('Sponsored and promoted');
+    expect(paragraph.style.getPropertyValue('outline')).toBe('');
+    expect(container.querySelectorAll('[data-makeitpop="control"]')).toHaveLength(1);
+  });
+
+  it('should show an element anyway when asked, and leave it alone after', () => {
+    container.innerHTML = post('Promoted');
+    highlightNodes(collectTextNodes(container), phraseMap, { actionContainer: '.post' });
+    const article = container.querySelector<HTMLElement>('.post')!;
+
+    (container.querySelector('[data-makeitpop="control"] button') as HTMLButtonElement).click();
+    expect(article.querySelector('p')!.style.display).toBe('');
+    expect(container.querySelector('[data-makeitpop="control"]')).toBeNull();
+
+    article.appendChild(document.createTextNode(' again promoted'));
+    highlightNodes(collectTextNodes(article), phraseMap, { actionContainer: '.post' });
+    expect(article.hasAttribute('data-makeitpop-action')).toBe(false);
+  });
+
+  it('should undo actions cleanly when highlights are cleared', () => {
+    const html = '<article class="post" style="display: grid; opacity: 0.9;"><p>Promoted post</p></article>';
+    container.innerHTML = html;
+    highlightNodes(collectTextNodes(container), phraseMap, { actionContainer: '.post' });
+
+    clearAllHighlights();
+    expect(container.innerHTML).toBe(html);
+  });
+
+  it('should keep the control valid in list items and table rows', () => {
+    const html = '<ul><li>Promoted item</li><li>Other item</li></ul>'
+      + '<table><tbody><tr class="row"><td>Spoiler</td><td>cell</td></tr></tbody></table>';
+    container.innerHTML = html;
+    highlightNodes(collectTextNodes(container), phraseMap, { actionContainer: '.row' });
+
+    const item = container.querySelector('li')!;
+    expect(item.parentElement!.children).toHaveLength(2);
+    expect(item.firstElementChild!.getAttribute('data-makeitpop')).toBe('control');
+
+    const row = container.querySelector<HTMLElement>('.row')!;
+    const [firstCell, secondCell] = Array.from(row.children) as HTMLElement[];
+    expect(row.children).toHaveLength(2);
+    expect(firstCell.firstElementChild!.getAttribute('data-makeitpop')).toBe('control');
+    expect(secondCell.style.getPropertyValue('filter')).toBe('blur(6px)');
+
+    clearAllHighlights();
+    expect(container.innerHTML).toBe(html);
+  });
+
+  it('should not hand the observer the text it wraps to apply an action', () => {
+    container.innerHTML = '<ul><li><b>Promoted</b> item</li></ul>';
+    const observer = new MutationObserver(() => {});
+    observer.observe(container, { childList: true, subtree: true });
+
+    highlightNodes(collectTextNodes(container), phraseMap);
+    const added = addedTextNodes(observer.takeRecords());
+    observer.disconnect();
+
+    expect(container.querySelector('li')!.getAttribute('data-makeitpop-action')).toBe('hide');
+    expect(added).toEqual([]);
+  });
+});
+
+describe('Content Script - Highlight Styles', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  const highlightSpan = (phraseMap: PhraseMap): HTMLElement => {
+    container.innerHTML = '<p>Remote role</p>';
+    highlightNodes(collectTextNodes(container), phraseMap);
+    return container.querySelector('[data-makeitpop]') as HTMLElement;
+  };
+
+  it('should fill the background by default', () => {
+    const span = highlightSpan(new Map([['remote', GREEN]]));
+
+    expect(span.style.backgroundColor).toBe('rgb(0, 255, 0)');
+    expect(span.style.padding).toBe('2px 4px');
+  });
+
+  it('should underline in the background color without filling', () => {
+    const span = highlightSpan(new Map([['remote', { ...GREEN, highlightStyle: { type: 'underline' as const, wavy: true, thickness: 3 } }]]));
+
+    expect(span.style.backgroundColor).toBe('');
+    expect(span.style.textDecorationLine).toBe('underline');
+    expect(span.style.textDecorationStyle).toBe('wavy');
+    expect(span.style.textDecorationColor).toBe(GREEN.bgColor);
+  });
+
+  it('should draw badge icons without changing the text', () => {
+    const span = highlightSpan(new Map([['remote', { ...GREEN, highlightStyle: { type: 'badge' as const, icon: '★' } }]]));
+
+    expect(span.style.backgroundImage).toContain('data:image/svg+xml');
+    expect(span.textContent).toBe('Remote');
+    expect(findMatches(container.textContent || '', new Map([['remote role', GREEN]]))).toHaveLength(1);
+  });
+
+  it('should restyle highlights in place when only the style changes', async () => {
+    const previous: PhraseMap = new Map([['remote', GREEN]]);
+    const next: PhraseMap = new Map([['remote', { ...GREEN, highlightStyle: { type: 'bold' as const } }]]);
+    const span = highlightSpan(previous);
+
+    const added = await updateHighlights(container, { phraseMap: previous, options: {} }, { phraseMap: next, options: {} });
+
+    expect(added).toBe(0);
+    expect(container.querySelector('[data-makeitpop]')).toBe(span);
+    expect(span.style.fontWeight).toBe('bold');
+    expect(span.style.backgroundColor).toBe('');
+  });
 });
@@ -1,5 +1,13 @@
 // Content script for Make It Pop - highlights phrases on web pages
-import { findMatches, clearMatcherCache, type Match, type PhraseMap } from './matcher.js';
+import {
+  findMatches,
+  loadSerializedPhrases,
+  type Match,
+  type PhraseColors,
+  type PhraseInfo,
+  type PhraseMap,
+  type SerializedPhrases,
+} from './matcher.js';
 import {
   browserAPI,
   getGroups,
@@ -8,7 +16,10 @@ import {
   getDebugMode,
   onStorageChanged,
 } from './browserApi.js';
-import type { Group, Domain } from './types.js';
+import { MatcherWorkerClient } from './matcherWorkerClient.js';
+import { PATTERN_LABELS, patternPhrase } from './patterns.js';
+import { applyHighlightStyle, type HighlightLook } from './highlightStyles.js';
+import type { Group, Domain, GroupAction, OverlapStrategy, ProximityScope, ScoreBadges } from './types.js';
 
 // =============================================================================
 // Debug Logging
@@ -76,63 +87,621 @@ const SKIP_TAGS = new Set([
 function shouldSkipElement(element: Element): boolean {
   if (SKIP_TAGS.has(element.tagName)) return true;
   if ((element as HTMLElement).isContentEditable) return true;
+  // Our score badges and "show anyway" controls
+  const marker = element.getAttribute('data-makeitpop');
+  if (marker !== null && marker !== 'true') return true;
   return false;
 }
 
+// Text split off or put back by highlighting, and spans group actions wrap around text,
+// which the observer mustn't take for new content: matching them again on their own
+// would miss exclusions and proximity that only show in the whole text
+const ownNodes = new WeakSet<Node>();
+
+function createOwnTextNode(text: string): Text {
+  const node = document.createTextNode(text);
+  ownNodes.add(node);
+  return node;
+}
+
+// =============================================================================
+// Group Conditions - Phrases a group looks for without highlighting them
+// =============================================================================
+
+// Match phrases the way the group matches its own (case, accents, word forms)
+function conditionPhraseMap(group: Group, phrases: string[]): PhraseMap {
+  return new Map(phrases.map(phrase => [phrase, {
+    bgColor: '',  // Never highlighted
+    textColor: '',
+    caseMode: group.phraseCaseModes?.[phrase] ?? group.caseMode,
+    regex: group.useRegex,
+    ignoreAccents: group.ignoreAccents,
+    matchWordForms: group.matchWordForms,
+  }]));
+}
+
+// A group's page triggers, compiled once per config
+export interface GroupTrigger {
+  group: Group;
+  phrases: PhraseMap;  // Looked for in the page's text
+  titles: PhraseMap;  // Looked for in the page title
+}
+
+// Exported for testing
+export function buildGroupTrigger(group: Group): GroupTrigger | null {
+  const phrases = group.triggers?.phrases ?? [];
+  const titles = group.triggers?.titles ?? [];
+  if (phrases.length === 0 && titles.length === 0) return null;
+
+  return {
+    group,
+    phrases: conditionPhraseMap(group, phrases),
+    titles: conditionPhraseMap(group, titles),
+  };
+}
+
+// Exported for testing
+export function isTriggered(trigger: GroupTrigger, text: string, title: string): boolean {
+  return (trigger.phrases.size > 0 && findMatches(text, trigger.phrases).length > 0) ||
+    (trigger.titles.size > 0 && findMatches(title, trigger.titles).length > 0);
+}
+
+// =============================================================================
+// Proximity Rules - Keep a match only when another phrase is nearby
+// =============================================================================
+
+interface CompiledProximityRule {
+  near: PhraseMap;  // Just the nearby phrase, matched with its group's settings
+  scope: ProximityScope;
+  words: number;
+}
+
+// Proximity rules by the phrase they apply to. A match needs all of its phrase's rules met
+export type ProximityRules = Map<string, CompiledProximityRule[]>;
+
+// Exported for testing
+export function buildProximityRules(activeGroups: Group[]): ProximityRules {
+  const rules: ProximityRules = new Map();
+  const claimed = new Set<string>();
+
+  for (const group of activeGroups) {
+    // A phrase in several groups follows the first group's rules, as it does its colors
+    const owned = new Set(group.phrases.filter(phrase => !claimed.has(phrase)));
+    owned.forEach(phrase => claimed.add(phrase));
+
+    for (const rule of group.proximityRules ?? []) {
+      if (!owned.has(rule.phrase)) continue;
+
+      const compiled = { near: conditionPhraseMap(group, [rule.near]), scope: rule.scope, words: rule.words ?? 0 };
+      rules.set(rule.phrase, [...(rules.get(rule.phrase) ?? []), compiled]);
+    }
+  }
+
+  return rules;
+}
+
+const COUNTED_WORD = /[\p{L}\p{N}]+/gu;
+
+// Number of words between two ranges of text (0 if they touch or overlap)
+function wordsBetween(text: string, a: { start: number; end: number }, b: { start: number; end: number }): number {
+  const gap = a.end <= b.start ? text.slice(a.end, b.start)
+    : b.end <= a.start ? text.slice(b.end, a.start)
+    : '';
+  return gap.match(COUNTED_WORD)?.length ?? 0;
+}
+
+// The text of a block element, where proximity rules look for nearby phrases
+interface BlockText {
+  text: string;
+  offsets: Map<Node, number>;  // Where each text node starts in text
+  nearMatches: Map<CompiledProximityRule, Match[]>;
+}
+
+// Checks matches against proximity rules, reading each block element's text once.
+// Wrapping matches in spans keeps a block's text the same, so one checker can be
+// used while a batch of nodes is highlighted
+class ProximityChecker {
+  private blocks = new Map<Node, BlockText>();
+
+  constructor(private rules: ProximityRules) {}
+
+  // Drop matches whose rules aren't met. Match offsets are relative to the start of node
+  filter(matches: Match[], node: Text): Match[] {
+    if (!matches.some(match => this.rules.has(match.phrase))) return matches;
+
+    const block = blockAncestor(node);
+    if (!block) return matches;
+    const blockText = this.blockText(block);
+    const offset = blockText.offsets.get(node) ?? 0;
+
+    return matches.filter(match => {
+      const range = { start: match.start + offset, end: match.end + offset };
+      return (this.rules.get(match.phrase) ?? []).every(rule => this.isMet(rule, blockText, range));
+    });
+  }
+
+  private isMet(rule: CompiledProximityRule, blockText: BlockText, range: { start: number; end: number }): boolean {
+    let nearMatches = blockText.nearMatches.get(rule);
+    if (!nearMatches) {
+      nearMatches = findMatches(blockText.text, rule.near);
+      blockText.nearMatches.set(rule, nearMatches);
+    }
+
+    if (rule.scope === 'element') return nearMatches.length > 0;
+    return nearMatches.some(near => wordsBetween(blockText.text, range, near) <= rule.words);
+  }
+
+  private blockText(block: Node): BlockText {
+    let blockText = this.blocks.get(block);
+    if (blockText) return blockText;
+
+    blockText = { text: '', offsets: new Map(), nearMatches: new Map() };
+    const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      blockText.offsets.set(node, blockText.text.length);
+      blockText.text += node.textContent || '';
+    }
+    this.blocks.set(block, blockText);
+    return blockText;
+  }
+}
+
+function proximityChecker(options: HighlightOptions): ProximityChecker | undefined {
+  return options.proximityRules?.size ? new ProximityChecker(options.proximityRules) : undefined;
+}
+
+// =============================================================================
+// Group Actions - Dim, blur, hide or outline the element around a match
+// =============================================================================
+
+// Stronger actions replace weaker ones on the same element
+const ACTION_STRENGTH: Record<GroupAction, number> = {
+  'highlight': 0,
+  'outline-container': 1,
+  'dim': 2,
+  'blur': 3,
+  'hide': 4,
+};
+
+const ACTION_LABELS: Record<GroupAction, string> = {
+  'highlight': 'Highlighted',
+  'outline-container': 'Outlined',
+  'dim': 'Dimmed',
+  'blur': 'Blurred',
+  'hide': 'Hidden',
+};
+
+function actionStyles(action: GroupAction, colors: PhraseColors): Record<string, string> {
+  switch (action) {
+    case 'highlight': return {};
+    case 'outline-container': return { 'outline': `2px solid ${colors.bgColor}`, 'outline-offset': '2px' };
+    case 'dim': return { 'opacity': '0.3' };
+    case 'blur': return { 'filter': 'blur(6px)' };
+    case 'hide': return { 'display': 'none' };
+  }
+}
+
+type PreviousStyles = [property: string, value: string, priority: string][];
+
+// What an element looked like before an action, so the action can be undone
+interface AppliedAction {
+  action: GroupAction;
+  styled: [element: HTMLElement, previousStyles: PreviousStyles][];
+  wrappers: HTMLElement[];  // Spans around text the action had to style
+  control: HTMLElement | null;  // The "show anyway" control, for actions that hide content
+}
+
+// Elements that can't hold the control (lists, tables and their rows): it goes into
+// their first item or cell instead
+const CONTROL_PASS_THROUGH = new Set(['UL', 'OL', 'DL', 'MENU', 'TABLE', 'THEAD', 'TBODY', 'TFOOT', 'TR']);
+
+const appliedActions = new WeakMap<Element, AppliedAction>();
+const revealedElements = new WeakSet<Element>();  // "Show anyway" was clicked: leave them alone
+
+// How a phrase is named in badges and controls
+function describePhrase(phrase: string, phraseMap: PhraseMap): string {
+  const pattern = phraseMap.get(phrase)?.pattern;
+  return pattern ? PATTERN_LABELS[pattern] : phrase;
+}
+
+function createActionControl(element: HTMLElement, action: GroupAction, phrase: string): HTMLElement {
+  // A span, so it's allowed in any element that can hold text
+  const control = document.createElement('span');
+  control.style.display = 'flex';
+  control.style.alignItems = 'center';
+  control.style.gap = '8px';
+  control.style.margin = '4px 0';
+  control.style.padding = '4px 8px';
+  control.style.borderRadius = '4px';
+  control.style.background = '#f1f3f4';
+  control.style.color = '#202124';
+  control.style.font = '12px/1.5 system-ui, sans-serif';
+  control.setAttribute('data-makeitpop', 'control');
+
+  const label = document.createElement('span');
+  label.textContent = `${ACTION_LABELS[action]} by Make It Pop: mentions "${phrase}"`;
+  control.appendChild(label);
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = 'Show anyway';
+  button.style.font = 'inherit';
+  button.style.cursor = 'pointer';
+  button.addEventListener('click', () => {
+    revealedElements.add(element);
+    undoGroupAction(element);
+  });
+  control.appendChild(button);
+  return control;
+}
+
+// The content of an element an action hides (or dims or blurs) while its control stays
+// visible: the element's children, apart from the way down to where the control goes.
+// Text among them is wrapped in a span so it can be styled too. Returns where the
+// control goes
+function collectActionContent(element: HTMLElement, content: HTMLElement[], wrappers: HTMLElement[]): HTMLElement {
+  let host = element;
+  for (;;) {
+    const next = CONTROL_PASS_THROUGH.has(host.tagName) ? host.firstElementChild as HTMLElement | null : null;
+    for (const child of Array.from(host.childNodes)) {
+      if (child === next) continue;
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        content.push(child as HTMLElement);
+      } else if (child.nodeType === Node.TEXT_NODE && child.textContent!.trim() !== '') {
+        const wrapper = document.createElement('span');
+        ownNodes.add(wrapper);
+        host.replaceChild(wrapper, child);
+        ownNodes.add(child);  // Moved, not added by the page
+        wrapper.appendChild(child);
+        wrappers.push(wrapper);
+        content.push(wrapper);
+      }
+    }
+    if (!next) return host;
+    host = next;
+  }
+}
+
+function setActionStyles(element: HTMLElement, styles: Record<string, string>): PreviousStyles {
+  const previousStyles = Object.keys(styles).map(property => [
+    property,
+    element.style.getPropertyValue(property),
+    element.style.getPropertyPriority(property),
+  ] as [string, string, string]);
+  // Important, so the page's own rules (like a display on the element) don't win
+  Object.entries(styles).forEach(([property, value]) => element.style.setProperty(property, value, 'important'));
+  return previousStyles;
+}
+
+// Apply a group's action to an element, unless it already has an action at least as strong.
+// The control goes inside the element, where it's valid wherever the element is, so
+// actions that hide content apply to what's around the control rather than the element
+function applyGroupAction(element: HTMLElement, action: GroupAction, phrase: string, phraseMap: PhraseMap): void {
+  const applied = appliedActions.get(element);
+  if (revealedElements.has(element) || (applied && ACTION_STRENGTH[applied.action] >= ACTION_STRENGTH[action])) return;
+  if (applied) undoGroupAction(element);
+
+  const content: HTMLElement[] = [];
+  const wrappers: HTMLElement[] = [];
+  let control: HTMLElement | null = null;
+  if (action === 'outline-container') {
+    content.push(element);
+  } else {
+    const host = collectActionContent(element, content, wrappers);
+    control = createActionControl(element, action, describePhrase(phrase, phraseMap));
+    host.insertBefore(control, host.firstChild);
+  }
+
+  const styles = actionStyles(action, phraseMap.get(phrase)!);
+  const styled = content.map(item => [item, setActionStyles(item, styles)] as [HTMLElement, PreviousStyles]);
+
+  element.setAttribute('data-makeitpop-action', action);
+  appliedActions.set(element, { action, styled, wrappers, control });
+}
+
+function undoGroupAction(element: Element): void {
+  const applied = appliedActions.get(element);
+  if (applied) {
+    for (const [item, previousStyles] of applied.styled) {
+      for (const [property, value, priority] of previousStyles) {
+        if (value) {
+          item.style.setProperty(property, value, priority);
+        } else {
+          item.style.removeProperty(property);
+        }
+      }
+      if (!item.getAttribute('style')) item.removeAttribute('style');
+    }
+    for (const wrapper of applied.wrappers) {
+      const parent = wrapper.parentNode;
+      if (!parent) continue;
+      while (wrapper.firstChild) {
+        ownNodes.add(wrapper.firstChild);
+        parent.insertBefore(wrapper.firstChild, wrapper);
+      }
+      wrapper.remove();
+    }
+    applied.control?.remove();
+    appliedActions.delete(element);
+  }
+  element.removeAttribute('data-makeitpop-action');
+}
+
+// The element an action applies to: the nearest ancestor matching the domain's action
+// container selector, or the paragraph (block element) the match is in
+function actionTarget(node: Node, options: HighlightOptions): HTMLElement | null {
+  const parent = node.parentElement;
+  if (!parent) return null;
+  if (options.actionContainer) {
+    try {
+      const container = parent.closest(options.actionContainer);
+      if (container) return container as HTMLElement;
+    } catch {
+      // Invalid selector: use the paragraph
+    }
+  }
+  const block = blockAncestor(node);
+  return block && block.nodeType === Node.ELEMENT_NODE && block !== document.body ? block as HTMLElement : null;
+}
+
+// Phrases of groups with an action, by phrase map (found once per config)
+const phraseActions = new WeakMap<PhraseMap, Map<string, GroupAction>>();
+
+function actionsOf(phraseMap: PhraseMap): Map<string, GroupAction> {
+  let actions = phraseActions.get(phraseMap);
+  if (!actions) {
+    actions = new Map();
+    for (const [phrase, info] of phraseMap) {
+      if (info.action && info.action !== 'highlight') actions.set(phrase, info.action);
+    }
+    phraseActions.set(phraseMap, actions);
+  }
+  return actions;
+}
+
+// Apply the actions of the groups whose phrases matched in node (before it's highlighted)
+function applyGroupActions(node: Node, matches: Match[], phraseMap: PhraseMap, options: HighlightOptions): void {
+  const actions = actionsOf(phraseMap);
+  if (actions.size === 0) return;
+
+  let target: HTMLElement | null | undefined;
+  for (const match of matches) {
+    const action = actions.get(match.phrase);
+    if (!action) continue;
+    if (target === undefined) target = actionTarget(node, options);
+    if (target) applyGroupAction(target, action, match.phrase, phraseMap);
+  }
+}
+
+// Undo every action under root and apply them again from its highlights, after a
+// settings change that may have changed groups' actions or the action container
+function refreshGroupActions(root: ParentNode, phraseMap: PhraseMap, options: HighlightOptions): void {
+  clearGroupActions(root);
+  const actions = actionsOf(phraseMap);
+  if (actions.size === 0) return;
+
+  for (const span of Array.from(root.querySelectorAll('[data-makeitpop-phrase]'))) {
+    const phrase = span.getAttribute('data-makeitpop-phrase')!;
+    const action = actions.get(phrase);
+    const target = action ? actionTarget(span, options) : null;
+    if (target) applyGroupAction(target, action!, phrase, phraseMap);
+  }
+}
+
+function clearGroupActions(root: ParentNode): void {
+  root.querySelectorAll('[data-makeitpop-action]').forEach(undoGroupAction);
+  root.querySelectorAll('[data-makeitpop="control"]').forEach(control => control.remove());
+}
+
 // =============================================================================
 // Highlighting - Apply all matches at once (no recursion!)
 // =============================================================================
 
+// How text is matched and highlighted, from the page's domain and group settings
+export interface HighlightOptions {
+  matchAcrossElements?: boolean;
+  matchInWorker?: boolean;  // Used for whole-page passes; new content is small enough to match in place
+  overlapStrategy?: OverlapStrategy;
+  proximityRules?: ProximityRules;
+  serializedPhrases?: SerializedPhrases;  // The background script's automata, for the worker to load
+  actionContainer?: string;  // Selector for the element group actions apply to
+}
+
+// A piece of one text node to wrap in a highlight span
+interface HighlightRange {
+  start: number;
+  end: number;
+  match: Match;
+  matchId?: string;  // Shared by the spans of a match that crosses elements
+}
+
+function createHighlightSpan(match: Match, matchId?: string): HTMLSpanElement {
+  const span = document.createElement('span');
+  if (match.fuzzy) {
+    span.title = `Close match for "${match.phrase}"`;
+    span.setAttribute('data-makeitpop-fuzzy', 'true');
+  }
+  if (match.depth) {
+    span.setAttribute('data-makeitpop-depth', String(match.depth));
+  }
+  styleHighlightSpan(span, match);
+  span.setAttribute('data-makeitpop', 'true');
+  span.setAttribute('data-makeitpop-phrase', match.phrase);
+  if (matchId) {
+    span.setAttribute('data-makeitpop-match', matchId);
+  }
+  return span;
+}
+
+// Set (or change, when settings do) how a highlight span looks
+function styleHighlightSpan(span: HTMLElement, look: HighlightLook): void {
+  applyHighlightStyle(span, look, {
+    nested: span.hasAttribute('data-makeitpop-depth'),
+    fuzzy: span.hasAttribute('data-makeitpop-fuzzy'),
+  });
+}
+
+function sameLook(a: HighlightLook, b: HighlightLook): boolean {
+  return a.bgColor === b.bgColor && a.textColor === b.textColor
+    && JSON.stringify(a.highlightStyle) === JSON.stringify(b.highlightStyle);
+}
+
+// Wrap ranges of a text node in highlight spans. Ranges are sorted by start (outer
+// ranges first) and either nest or don't overlap; nested ranges become nested spans
+function wrapRanges(node: Text, ranges: HighlightRange[]): number {
+  const parent = node.parentNode;
+  if (!parent || ranges.length === 0) return 0;
+
+  const text = node.textContent || '';
+  const fragment = document.createDocumentFragment();
+  let next = 0;
+
+  // Fill container with text[start, end), wrapping the ranges that fall inside it
+  const fill = (container: Node, start: number, end: number) => {
+    let position = start;
+    while (next < ranges.length && ranges[next].start < end) {
+      const range = ranges[next++];
+      if (range.start > position) {
+        container.appendChild(createOwnTextNode(text.slice(position, range.start)));
+      }
+      const span = createHighlightSpan(range.match, range.matchId);
+      fill(span, range.start, range.end);
+      container.appendChild(span);
+      position = range.end;
+    }
+    if (position < end) {
+      container.appendChild(createOwnTextNode(text.slice(position, end)));
+    }
+  };
+
+  fill(fragment, 0, text.length);
+  parent.replaceChild(fragment, node);
+  return ranges.length;
+}
+
 // Exported for testing
-export function highlightTextNode(node: Text, phraseMap: PhraseMap): number {
+export function highlightTextNode(
+  node: Text,
+  phraseMap: PhraseMap,
+  options: HighlightOptions = {},
+  proximity = proximityChecker(options)
+): number {
   const text = node.textContent || '';
   if (text.trim() === '') return 0;
 
-  const matches = findMatches(text, phraseMap);
+  const matches = findMatches(text, phraseMap, { overlapStrategy: options.overlapStrategy });
+  return applyMatches([node], [text], matches, phraseMap, options, proximity);
+}
+
+// Highlight a run of text nodes as one piece of text, so phrases can cross element edges
+function highlightTextRun(
+  nodes: Text[],
+  phraseMap: PhraseMap,
+  options: HighlightOptions,
+  proximity: ProximityChecker | undefined
+): number {
+  if (nodes.length === 1) return highlightTextNode(nodes[0], phraseMap, options, proximity);
+
+  const texts = nodes.map(node => node.textContent || '');
+  const text = texts.join('');
+  if (text.trim() === '') return 0;
+
+  const matches = findMatches(text, phraseMap, { overlapStrategy: options.overlapStrategy });
+  return applyMatches(nodes, texts, matches, phraseMap, options, proximity);
+}
+
+let nextMatchId = 0;
+
+// Wrap matches found in the joined texts of a run of nodes. In a run of several nodes,
+// each node gets spans for the parts of matches that fall inside it
+function applyMatches(
+  nodes: Text[],
+  texts: string[],
+  matches: Match[],
+  phraseMap: PhraseMap,
+  options: HighlightOptions,
+  proximity: ProximityChecker | undefined
+): number {
+  if (proximity) matches = proximity.filter(matches, nodes[0]);
   if (matches.length === 0) return 0;
+  applyGroupActions(nodes[0], matches, phraseMap, options);
 
-  const parent = node.parentNode;
-  if (!parent) return 0;
+  if (nodes.length === 1) {
+    return wrapRanges(nodes[0], matches.map(match => ({ start: match.start, end: match.end, match })));
+  }
+
+  const rangesByNode: HighlightRange[][] = nodes.map(() => []);
+  for (const match of matches) {
+    const matchId = String(nextMatchId++);
+    let nodeStart = 0;
+    for (let i = 0; i < nodes.length; i++) {
+      const nodeEnd = nodeStart + texts[i].length;
+      const start = Math.max(match.start, nodeStart);
+      const end = Math.min(match.end, nodeEnd);
+      if (start < end) {
+        rangesByNode[i].push({ start: start - nodeStart, end: end - nodeStart, match, matchId });
+      }
+      nodeStart = nodeEnd;
+    }
+  }
 
-  // Apply matches in REVERSE order to avoid position shifting
-  // This is much more efficient than recursive calls
-  let highlightCount = 0;
+  nodes.forEach((node, i) => wrapRanges(node, rangesByNode[i]));
+  return matches.length;
+}
 
-  for (let i = matches.length - 1; i >= 0; i--) {
-    const match = matches[i];
+// Inline elements keep text flowing within the same run; anything else starts a new one
+const INLINE_TAGS = new Set([
+  'A', 'ABBR', 'B', 'BDI', 'BDO', 'CITE', 'CODE', 'DATA', 'DEL', 'DFN', 'EM', 'FONT', 'I',
+  'INS', 'KBD', 'LABEL', 'MARK', 'Q', 'S', 'SAMP', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP',
+  'TIME', 'U', 'VAR'
+]);
 
-    try {
-      // Split at end position first
-      const afterMatch = node.splitText(match.end);
-
-      // Split at start position (node now contains text before match)
-      const matchNode = node.splitText(match.start);
-
-      // matchNode now contains exactly the matched text
-      // afterMatch contains text after the match
-
-      // Create highlight span
-      const span = document.createElement('span');
-      span.style.backgroundColor = match.bgColor;
-      span.style.color = match.textColor;
-      span.style.padding = '2px 4px';
-      span.style.boxShadow = '1px 1px rgba(0, 0, 0, 0.2)';
-      span.style.borderRadius = '3px';
-      span.style.fontStyle = 'inherit';
-      span.setAttribute('data-makeitpop', 'true');
-      span.textContent = matchNode.textContent;
-
-      // Replace matchNode with the span
-      parent.replaceChild(span, matchNode);
-
-      highlightCount++;
-    } catch (e) {
-      // Node was modified during operation - skip this match
-      continue;
+function isInlineElement(element: Element): boolean {
+  return INLINE_TAGS.has(element.tagName);
+}
+
+function blockAncestor(node: Node): Node | null {
+  let parent = node.parentNode;
+  while (parent && parent.nodeType === Node.ELEMENT_NODE && isInlineElement(parent as Element)) {
+    parent = parent.parentNode;
+  }
+  return parent;
+}
+
+// True if only inline elements start between two text nodes (no <br>, <div>, images...)
+function onlyInlineBetween(before: Text, after: Text, block: Node): boolean {
+  const walker = document.createTreeWalker(block, NodeFilter.SHOW_ELEMENT);
+  walker.currentNode = before;
+
+  for (let element = walker.nextNode(); element; element = walker.nextNode()) {
+    // Elements that open after `after` (and don't contain it) are past the gap
+    if (!element.contains(after) && after.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING) break;
+    if (!isInlineElement(element as Element)) return false;
+  }
+  return true;
+}
+
+// Group text nodes (in document order) into runs of text that flows together inside one block
+// Exported for testing
+export function collectTextRuns(textNodes: Text[]): Text[][] {
+  const runs: Text[][] = [];
+  let currentRun: Text[] = [];
+  let currentBlock: Node | null = null;
+
+  for (const node of textNodes) {
+    const block = blockAncestor(node);
+    const previous = currentRun[currentRun.length - 1];
+    if (previous && block === currentBlock && block && onlyInlineBetween(previous, node, block)) {
+      currentRun.push(node);
+    } else {
+      if (currentRun.length > 0) runs.push(currentRun);
+      currentRun = [node];
+      currentBlock = block;
     }
   }
+  if (currentRun.length > 0) runs.push(currentRun);
 
-  return highlightCount;
+  return runs;
 }
 
 // Exported for testing
@@ -164,28 +733,203 @@ export function collectTextNodes(root: Node): Text[] {
   return textNodes;
 }
 
+// The pieces of text that are matched on their own: runs of text across inline elements,
+// or single text nodes. Nodes that were removed or highlighted since are left out
+function matchUnits(nodes: Text[], options: HighlightOptions): Text[][] {
+  // Check if node is still in DOM and parent hasn't been highlighted
+  const liveNodes = nodes.filter(node => {
+    if (!node.parentNode) return false;
+    const parent = node.parentNode as Element;
+    return !parent.hasAttribute?.('data-makeitpop');
+  });
+
+  return options.matchAcrossElements ? collectTextRuns(liveNodes) : liveNodes.map(node => [node]);
+}
+
 // Exported for testing
-export function highlightNodes(nodes: Text[], phraseMap: PhraseMap): number {
+export function highlightNodes(nodes: Text[], phraseMap: PhraseMap, options: HighlightOptions = {}): number {
+  const proximity = proximityChecker(options);
+
   let totalHighlights = 0;
-  for (const node of nodes) {
-    // Check if node is still in DOM and parent hasn't been highlighted
-    if (!node.parentNode) continue;
-    const parent = node.parentNode as Element;
-    if (parent.hasAttribute?.('data-makeitpop')) continue;
+  for (const unit of matchUnits(nodes, options)) {
+    totalHighlights += highlightTextRun(unit, phraseMap, options, proximity);
+  }
+  return totalHighlights;
+}
+
+const WORKER_BATCH_SIZE = 500;  // Texts sent to the worker per message
+const APPLY_CHUNK_SIZE = 50;  // Texts highlighted before letting the page handle input
+
+function nextFrame(): Promise<void> {
+  return new Promise(resolve => requestAnimationFrame(() => resolve()));
+}
 
-    totalHighlights += highlightTextNode(node, phraseMap);
+// Like highlightNodes, but matching happens in the matcher worker and the results are
+// applied in chunks between frames. Text that changed while the worker was busy is
+// matched again on the main thread, so the results are the same as highlightNodes'.
+// Stops early (returning what it highlighted so far) once isCancelled returns true
+// Exported for testing
+export async function highlightNodesInWorker(
+  nodes: Text[],
+  phraseMap: PhraseMap,
+  options: HighlightOptions,
+  client: MatcherWorkerClient,
+  isCancelled: () => boolean = () => false
+): Promise<number> {
+  const proximity = proximityChecker(options);
+  const units = matchUnits(nodes, options).map(unit => {
+    const texts = unit.map(node => node.textContent || '');
+    return { nodes: unit, texts, text: texts.join('') };
+  }).filter(unit => unit.text.trim() !== '');
+
+  client.configure(phraseMap, options.overlapStrategy, options.serializedPhrases);
+
+  let totalHighlights = 0;
+  for (let batchStart = 0; batchStart < units.length; batchStart += WORKER_BATCH_SIZE) {
+    const batch = units.slice(batchStart, batchStart + WORKER_BATCH_SIZE);
+    let results: Match[][] | null = null;
+    try {
+      results = await client.match(batch.map(unit => unit.text));
+    } catch (error) {
+      debugLog('Matcher worker failed, matching on the main thread', error);
+    }
+
+    for (let i = 0; i < batch.length; i++) {
+      if (i % APPLY_CHUNK_SIZE === 0) {
+        if (i > 0) await nextFrame();
+        if (isCancelled()) return totalHighlights;
+      }
+
+      const unit = batch[i];
+      const unchanged = unit.nodes.every((node, j) => node.parentNode && node.textContent === unit.texts[j]);
+      totalHighlights += results && unchanged
+        ? applyMatches(unit.nodes, unit.texts, results[i], phraseMap, options, proximity)
+        : highlightNodes(unit.nodes, phraseMap, options);
+    }
   }
   return totalHighlights;
 }
 
-function clearAllHighlights(): number {
-  const highlights = document.querySelectorAll('[data-makeitpop]');
+// =============================================================================
+// Time Slicing - Highlight in short slices, content near the viewport first
+// =============================================================================
+
+const SLICE_BUDGET_MS = 8;  // Work per slice, leaving the rest of the frame to the page
+const NEAR_VIEWPORT_MARGIN = '100% 0px';  // Within a screen's height above or below counts as near
+const IDLE_TIMEOUT_MS = 1000;  // Off-screen work waits for idle time, but no longer than this
+
+type TaskPriority = 'user-visible' | 'background';
+
+interface SchedulerLike {
+  postTask(callback: () => void, options?: { priority?: TaskPriority }): Promise<unknown>;
+}
+
+// Run a slice soon: with scheduler.postTask where available, else requestIdleCallback for
+// background work, else a timeout
+function scheduleSlice(callback: () => void, priority: TaskPriority): void {
+  const scheduler = (globalThis as { scheduler?: SchedulerLike }).scheduler;
+  if (scheduler?.postTask) {
+    scheduler.postTask(callback, { priority });
+  } else if (priority === 'background' && typeof requestIdleCallback === 'function') {
+    requestIdleCallback(callback, { timeout: IDLE_TIMEOUT_MS });
+  } else {
+    setTimeout(callback, 0);
+  }
+}
+
+// Like highlightNodes, but in slices of at most SLICE_BUDGET_MS so the page stays responsive.
+// Text in or near the viewport goes first; the rest follows in idle time, in document order.
+// Stops early (resolving with what it highlighted so far) once isCancelled returns true
+// Exported for testing
+export function highlightNodesSliced(
+  nodes: Text[],
+  phraseMap: PhraseMap,
+  options: HighlightOptions = {},
+  isCancelled: () => boolean = () => false
+): Promise<number> {
+  const units = matchUnits(nodes, options);
+  const proximity = proximityChecker(options);
+  const pending = new Set(units);
+  const nearViewport: Text[][] = [];
+  let next = 0;  // Next unit in document order
+  let totalHighlights = 0;
+
+  return new Promise(resolve => {
+    let viewportObserver: IntersectionObserver | null = null;
+
+    const finish = () => {
+      viewportObserver?.disconnect();
+      resolve(totalHighlights);
+    };
+
+    const nextUnit = (): Text[] | undefined => {
+      for (let unit = nearViewport.shift(); unit; unit = nearViewport.shift()) {
+        if (pending.has(unit)) return unit;
+      }
+      for (; next < units.length; next++) {
+        if (pending.has(units[next])) return units[next++];
+      }
+      return undefined;
+    };
+
+    const runSlice = () => {
+      if (isCancelled()) return finish();
+
+      const deadline = performance.now() + SLICE_BUDGET_MS;
+      for (let unit = nextUnit(); unit; unit = performance.now() < deadline ? nextUnit() : undefined) {
+        pending.delete(unit);
+        totalHighlights += highlightTextRun(unit, phraseMap, options, proximity);
+      }
+
+      if (pending.size === 0) return finish();
+      scheduleSlice(runSlice, nearViewport.length > 0 ? 'user-visible' : 'background');
+    };
+
+    if (units.length === 0) return finish();
+    if (typeof IntersectionObserver !== 'function') return runSlice();
+
+    // Watch each unit's element: its first report says what's near the viewport, and
+    // later ones move text the user scrolls towards ahead of the rest
+    const unitsByElement = new Map<Element, Text[][]>();
+    for (const unit of units) {
+      const element = unit[0].parentElement;
+      if (element) unitsByElement.set(element, [...(unitsByElement.get(element) ?? []), unit]);
+    }
+
+    let started = false;
+    viewportObserver = new IntersectionObserver((entries) => {
+      for (const entry of entries) {
+        if (!entry.isIntersecting) continue;
+        nearViewport.push(...(unitsByElement.get(entry.target) ?? []).filter(unit => pending.has(unit)));
+        viewportObserver?.unobserve(entry.target);
+      }
+      if (!started) {
+        started = true;
+        runSlice();
+      }
+    }, { rootMargin: NEAR_VIEWPORT_MARGIN });
+    unitsByElement.forEach((_, element) => viewportObserver?.observe(element));
+    if (unitsByElement.size === 0) runSlice();
+  });
+}
+
+// Remove every highlight, score badge and group action from the page. Returns the number
+// of highlights
+// Exported for testing
+export function clearAllHighlights(): number {
+  clearScoreBadges(document);
+  clearGroupActions(document);
+  return clearHighlights(document);
+}
+
+function clearHighlights(root: ParentNode): number {
+  const highlights = root.querySelectorAll('[data-makeitpop="true"]');
   const count = highlights.length;
 
   highlights.forEach(span => {
     const parent = span.parentNode;
     if (parent) {
-      const textNode = document.createTextNode(span.textContent || '');
+      const textNode = createOwnTextNode(span.textContent || '');
       parent.replaceChild(textNode, span);
       parent.normalize();
     }
@@ -194,14 +938,374 @@ function clearAllHighlights(): number {
   return count;
 }
 
+// =============================================================================
+// Settings Changes - Patch up highlights instead of redoing the whole page
+// =============================================================================
+
+// What decides where a phrase matches (not its looks, weight or action), for comparing configs
+function matchingSignature(info: PhraseInfo): string {
+  const { bgColor, textColor, highlightStyle, weight, action, exclusions, ...settings } = info;
+  return JSON.stringify([settings, exclusions ? phraseMapSignature(exclusions) : null]);
+}
+
+function phraseMapSignature(phraseMap: PhraseMap): string {
+  return JSON.stringify([...phraseMap].map(([phrase, info]) => [phrase, matchingSignature(info)]));
+}
+
+function proximitySignature(proximityRules: ProximityRules | undefined): string {
+  return JSON.stringify([...(proximityRules ?? [])].map(([phrase, rules]) => [
+    phrase,
+    rules.map(rule => [phraseMapSignature(rule.near), rule.scope, rule.words]),
+  ]));
+}
+
+// Options that change how every phrase matches; when one does, the whole page is redone
+function sameMatchingOptions(a: HighlightOptions, b: HighlightOptions): boolean {
+  return a.matchAcrossElements === b.matchAcrossElements
+    && a.overlapStrategy === b.overlapStrategy
+    && proximitySignature(a.proximityRules) === proximitySignature(b.proximityRules);
+}
+
+// The texts under root as they were matched before highlighting split them: a text node
+// with the highlights in it, or with matchAcrossElements a run through inline elements.
+// Each comes with the element to highlight again if the text needs it
+function matchedTexts(root: Element, options: HighlightOptions): { text: string; element: Element }[] {
+  const texts: { text: string; element: Element }[] = [];
+  let text = '';
+  const flush = (element: Element) => {
+    if (text.trim()) texts.push({ text, element });
+    text = '';
+  };
+
+  const walk = (element: Element, owner: Element) => {
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        text += child.textContent;
+      } else if (child.nodeType !== Node.ELEMENT_NODE) {
+        if (!options.matchAcrossElements) flush(owner);
+      } else if ((child as Element).getAttribute('data-makeitpop') === 'true') {
+        text += child.textContent;
+      } else if (shouldSkipElement(child as Element)) {
+        flush(owner);
+      } else if (options.matchAcrossElements && isInlineElement(child as Element)) {
+        walk(child as Element, owner);
+      } else {
+        flush(owner);
+        walk(child as Element, child as Element);
+        flush(child as Element);
+      }
+    }
+  };
+
+  walk(root, root);
+  flush(root);
+  return texts;
+}
+
+// Bring the highlights under root from one config's phrases to another's. Only elements
+// with highlights of removed or changed phrases, or text that added or changed phrases
+// match, are highlighted again; spans of phrases that only changed colors or style are restyled.
+// Resolves with the number of highlights added, or null (having changed nothing) if the
+// options changed in a way that needs the whole page highlighted again
+// Exported for testing
+export async function updateHighlights(
+  root: Element,
+  previous: Pick<ActiveConfig, 'phraseMap' | 'options'>,
+  next: Pick<ActiveConfig, 'phraseMap' | 'options'>,
+  isCancelled: () => boolean = () => false
+): Promise<number | null> {
+  if (!sameMatchingOptions(previous.options, next.options)) return null;
+
+  const rematched = new Set<string>();
+  for (const phrase of previous.phraseMap.keys()) {
+    if (!next.phraseMap.has(phrase)) rematched.add(phrase);
+  }
+  const restyled = new Set<string>();
+  const matchedPhrases: PhraseMap = new Map();
+  for (const [phrase, info] of next.phraseMap) {
+    const previousInfo = previous.phraseMap.get(phrase);
+    if (!previousInfo || matchingSignature(previousInfo) !== matchingSignature(info)) {
+      rematched.add(phrase);
+      matchedPhrases.set(phrase, info);
+    } else if (!sameLook(previousInfo, info)) {
+      restyled.add(phrase);
+    }
+  }
+
+  // Elements whose highlights may be out of date: where spans of rematched phrases are,
+  // and where the added or changed phrases now match
+  const dirty = new Set<Element>();
+  for (const span of Array.from(root.querySelectorAll<HTMLElement>('[data-makeitpop-phrase]'))) {
+    const phrase = span.getAttribute('data-makeitpop-phrase')!;
+    if (rematched.has(phrase)) {
+      const block = blockAncestor(span);
+      if (block && block.nodeType === Node.ELEMENT_NODE) dirty.add(block as Element);
+    } else if (restyled.has(phrase)) {
+      styleHighlightSpan(span, next.phraseMap.get(phrase)!);
+    }
+  }
+  if (matchedPhrases.size > 0) {
+    for (const { text, element } of matchedTexts(root, next.options)) {
+      if (findMatches(text, matchedPhrases).length > 0) dirty.add(element);
+    }
+  }
+
+  // Elements inside another dirty element are highlighted along with it
+  const elements = [...dirty].filter(element => {
+    for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+      if (dirty.has(parent)) return false;
+    }
+    return true;
+  });
+  for (const element of elements) {
+    clearHighlights(element);
+  }
+  const nodes = elements.flatMap(element => collectTextNodes(element));
+  const added = await highlightNodesSliced(nodes, next.phraseMap, next.options, isCancelled);
+  if (!isCancelled()) refreshGroupActions(root, next.phraseMap, next.options);
+  return added;
+}
+
+// =============================================================================
+// Score Badges - Total the weights of the matches in each region of the page
+// =============================================================================
+
+const BADGE_COLORS = { good: '#2e7d32', bad: '#c62828', neutral: '#616161' };
+
+// What each phrase highlighted in a region adds to its score, counting every match once
+// (a match across elements has a span in each). Phrases without a weight are left out
+function regionScores(region: Element, phraseMap: PhraseMap): Map<string, number> {
+  const scores = new Map<string, number>();
+  const counted = new Set<string>();
+  for (const span of Array.from(region.querySelectorAll('[data-makeitpop-phrase]'))) {
+    const matchId = span.getAttribute('data-makeitpop-match');
+    if (matchId !== null) {
+      if (counted.has(matchId)) continue;
+      counted.add(matchId);
+    }
+    const phrase = span.getAttribute('data-makeitpop-phrase')!;
+    const weight = phraseMap.get(phrase)?.weight;
+    if (weight) scores.set(phrase, (scores.get(phrase) ?? 0) + weight);
+  }
+  return scores;
+}
+
+function formatScore(score: number): string {
+  return score > 0 ? `+${score}` : score < 0 ? `−${-score}` : '0';
+}
+
+function createScoreBadge(): HTMLSpanElement {
+  const badge = document.createElement('span');
+  badge.style.display = 'inline-block';
+  badge.style.margin = '0 6px 0 0';
+  badge.style.padding = '1px 8px';
+  badge.style.borderRadius = '10px';
+  badge.style.color = '#ffffff';
+  badge.style.font = 'bold 12px/1.5 system-ui, sans-serif';
+  badge.style.verticalAlign = 'middle';
+  badge.setAttribute('data-makeitpop', 'badge');
+  return badge;
+}
+
+// Set a badge's score, color and breakdown, leaving it untouched if nothing changed
+// (every change to the page wakes up the MutationObserver)
+function showScore(badge: HTMLElement, scores: Map<string, number>, phraseMap: PhraseMap, scoreBadges: ScoreBadges): void {
+  const score = [...scores.values()].reduce((sum, weight) => sum + weight, 0);
+  const level = score >= (scoreBadges.goodAt ?? 1) ? 'good' : score <= (scoreBadges.badAt ?? -1) ? 'bad' : 'neutral';
+  const breakdown = [...scores].map(([phrase, weight]) => `${describePhrase(phrase, phraseMap)} ${formatScore(weight)}`);
+  const title = `Make It Pop score: ${breakdown.join(', ')}`;
+
+  if (badge.textContent !== formatScore(score)) badge.textContent = formatScore(score);
+  if (badge.title !== title) badge.title = title;
+  if (badge.getAttribute('data-makeitpop-level') !== level) {
+    badge.setAttribute('data-makeitpop-level', level);
+    badge.style.backgroundColor = BADGE_COLORS[level];
+  }
+}
+
+// Show the score of each region under root that matches the container selector in a
+// badge at its start, adding, updating and removing badges as needed. Regions without
+// weighted matches get no badge. Returns the number of badges shown
+// Exported for testing
+export function updateScoreBadges(root: ParentNode, phraseMap: PhraseMap, scoreBadges: ScoreBadges): number {
+  let regions: Element[];
+  try {
+    regions = Array.from(root.querySelectorAll(scoreBadges.container));
+  } catch {
+    debugLog('Invalid score badge container selector', scoreBadges.container);
+    clearScoreBadges(root);
+    return 0;
+  }
+
+  // Badges left on elements that are no longer containers (the selector changed)
+  const regionSet = new Set(regions);
+  for (const badge of Array.from(root.querySelectorAll('[data-makeitpop="badge"]'))) {
+    if (!badge.parentElement || !regionSet.has(badge.parentElement)) badge.remove();
+  }
+
+  let shown = 0;
+  for (const region of regions) {
+    const badge = Array.from(region.children).find(child => child.getAttribute('data-makeitpop') === 'badge') as HTMLElement | undefined;
+    const scores = regionScores(region, phraseMap);
+    if (scores.size === 0) {
+      badge?.remove();
+      continue;
+    }
+    if (badge) {
+      showScore(badge, scores, phraseMap, scoreBadges);
+    } else {
+      const newBadge = createScoreBadge();
+      showScore(newBadge, scores, phraseMap, scoreBadges);
+      region.prepend(newBadge);
+    }
+    shown++;
+  }
+  return shown;
+}
+
+function clearScoreBadges(root: ParentNode): number {
+  const badges = root.querySelectorAll('[data-makeitpop="badge"]');
+  badges.forEach(badge => badge.remove());
+  return badges.length;
+}
+
 // =============================================================================
 // Main Highlighting Logic
 // =============================================================================
 
-let currentPhraseMap: PhraseMap | null = null;
+let currentConfig: ActiveConfig | null = null;
 let mutationObserver: MutationObserver | null = null;
+let titleObserver: MutationObserver | null = null;
+let highlightGeneration = 0;  // Bumped by each page pass, so an older pass still in the worker stops
+let finishedGeneration = 0;  // The last pass that wasn't cut short by a newer one
+let matcherWorker: Promise<MatcherWorkerClient | null> | null = null;
+
+// Started on first use and kept for the life of the page (null if the page blocks workers)
+function getMatcherWorker(): Promise<MatcherWorkerClient | null> {
+  if (!matcherWorker) {
+    matcherWorker = MatcherWorkerClient.start().then(client => {
+      if (!client) debugLog('Matcher worker unavailable on this page, matching on the main thread');
+      return client;
+    });
+  }
+  return matcherWorker;
+}
+
+// Highlight a whole-page pass in the matcher worker if the domain asks for it, or on the
+// main thread, in slices, if it doesn't or the page won't start one (e.g. a strict worker-src CSP)
+// Exported for testing
+export async function highlightPageNodes(
+  nodes: Text[],
+  phraseMap: PhraseMap,
+  options: HighlightOptions,
+  getWorker: () => Promise<MatcherWorkerClient | null>,
+  isCancelled: () => boolean = () => false
+): Promise<number> {
+  const worker = options.matchInWorker ? await getWorker() : null;
+  return worker
+    ? highlightNodesInWorker(nodes, phraseMap, options, worker, isCancelled)
+    : highlightNodesSliced(nodes, phraseMap, options, isCancelled);
+}
+
+// Build the phrase map for the active groups. Groups are in priority order (as arranged
+// in settings): a phrase in several groups takes the first group's settings, and
+// earlier groups win when their matches overlap
+// Exported for testing
+export function buildPhraseMap(activeGroups: Group[], mode: 'light' | 'dark'): PhraseMap {
+  const phraseMap: PhraseMap = new Map();
+
+  activeGroups.forEach((group, priority) => {
+    const bgColor = mode === 'dark' ? group.darkBgColor : group.lightBgColor;
+    const textColor = mode === 'dark' ? group.darkTextColor : group.lightTextColor;
+    // Shared by all of the group's phrases, so the matcher looks for them once per text
+    const exclusions = group.excludePhrases?.length ? conditionPhraseMap(group, group.excludePhrases) : undefined;
+
+    for (const phrase of group.phrases) {
+      if (phraseMap.has(phrase)) continue;
+
+      phraseMap.set(phrase, {
+        bgColor,
+        textColor,
+        highlightStyle: group.style,
+        priority,
+        caseMode: group.phraseCaseModes?.[phrase] ?? group.caseMode,
+        regex: group.useRegex,
+        ignoreAccents: group.ignoreAccents,
+        matchWordForms: group.matchWordForms,
+        fuzzyDistance: group.fuzzyDistance,
+        exclusions,
+        weight: group.phraseWeights?.[phrase] ?? group.weight,
+        action: group.action,
+      });
+    }
+
+    for (const pattern of group.patterns ?? []) {
+      const phrase = patternPhrase(pattern);
+      if (phraseMap.has(phrase)) continue;
+      phraseMap.set(phrase, {
+        bgColor,
+        textColor,
+        highlightStyle: group.style,
+        priority,
+        pattern,
+        exclusions,
+        weight: group.weight,
+        action: group.action,
+      });
+    }
+  });
+
+  return phraseMap;
+}
+
+interface ActiveConfig {
+  phraseMap: PhraseMap;  // Phrases of the groups that aren't waiting for a trigger
+  mode: 'light' | 'dark';
+  options: HighlightOptions;
+  groups: Group[];  // All groups active on this domain, in priority order
+  waiting: GroupTrigger[];  // Groups whose triggers haven't appeared on the page yet
+  scoreBadges?: ScoreBadges;
+}
+
+// Build the phrase map and proximity rules from the groups that aren't waiting
+function applyActiveGroups(config: ActiveConfig): void {
+  const groups = config.groups.filter(group => !config.waiting.some(trigger => trigger.group === group));
+  config.phraseMap = buildPhraseMap(groups, config.mode);
+  const { serializedPhrases } = config.options;
+  if (serializedPhrases && !loadSerializedPhrases(config.phraseMap, serializedPhrases)) {
+    debugLog('Precompiled phrases are out of date, compiling them here');
+  }
+  config.options.proximityRules = buildProximityRules(groups);
+}
 
-async function getActiveConfig(): Promise<{ phraseMap: PhraseMap; mode: 'light' | 'dark' } | null> {
+// The automata the background script compiled for groups, or null if it can't send them
+async function requestSerializedPhrases(groups: Group[]): Promise<SerializedPhrases | null> {
+  try {
+    const response = await browserAPI.runtime.sendMessage({ type: 'getSerializedPhrases', groupIds: groups.map(group => group.id) });
+    return response?.phrases ?? null;
+  } catch (error) {
+    debugLog('Precompiled phrases unavailable', error);
+    return null;
+  }
+}
+
+function pageText(root: Node): string {
+  return collectTextNodes(root).map(node => node.textContent || '').join('\n');
+}
+
+// Start highlighting waiting groups whose triggers are in text or the page title.
+// Returns true if any did (the config's phrase map is then rebuilt)
+function activateTriggeredGroups(config: ActiveConfig, text: string): boolean {
+  const triggered = config.waiting.filter(trigger => isTriggered(trigger, text, document.title));
+  if (triggered.length === 0) return false;
+
+  config.waiting = config.waiting.filter(trigger => !triggered.includes(trigger));
+  applyActiveGroups(config);
+  debugLog('Groups triggered', triggered.map(trigger => trigger.group.name));
+  return true;
+}
+
+async function getActiveConfig(): Promise<ActiveConfig | null> {
   // Check if extension is enabled
   const enabled = await getEnabled();
   if (!enabled) {
@@ -235,44 +1339,86 @@ async function getActiveConfig(): Promise<{ phraseMap: PhraseMap; mode: 'light'
     return null;
   }
 
-  // Build phrase map
-  const mode = matchedDomain.mode;
-  const phraseMap: PhraseMap = new Map();
-
-  for (const group of activeGroups) {
-    const bgColor = mode === 'dark' ? group.darkBgColor : group.lightBgColor;
-    const textColor = mode === 'dark' ? group.darkTextColor : group.lightTextColor;
-
-    for (const phrase of group.phrases) {
-      phraseMap.set(phrase, { bgColor, textColor });
-    }
+  const config: ActiveConfig = {
+    phraseMap: new Map(),
+    mode: matchedDomain.mode,
+    options: {
+      matchAcrossElements: matchedDomain.matchAcrossElements === true,
+      matchInWorker: matchedDomain.matchInWorker === true,
+      overlapStrategy: matchedDomain.overlapStrategy,
+      actionContainer: matchedDomain.actionContainer,
+      // Compiled with groups still waiting for a trigger, so triggering them needs no new request
+      serializedPhrases: (await requestSerializedPhrases(activeGroups)) ?? undefined,
+    },
+    groups: activeGroups,
+    waiting: activeGroups.map(buildGroupTrigger).filter(trigger => trigger !== null),
+    scoreBadges: matchedDomain.scoreBadges,
+  };
+
+  // Groups with triggers wait until the page mentions them
+  if (config.waiting.length > 0) {
+    const text = pageText(document.body);
+    config.waiting = config.waiting.filter(trigger => !isTriggered(trigger, text, document.title));
   }
+  applyActiveGroups(config);
 
   debugLog('Active config', {
     domain: matchedDomain.domain,
-    mode,
+    mode: config.mode,
     groups: activeGroups.map(g => g.name),
-    phrases: phraseMap.size
+    waitingForTriggers: config.waiting.map(trigger => trigger.group.name),
+    phrases: config.phraseMap.size
   });
 
-  return { phraseMap, mode };
+  return config;
+}
+
+// Bring the page's score badges up to date with its highlights (or remove them if the
+// domain has none)
+function showScoreBadges(config: ActiveConfig): void {
+  if (!config.scoreBadges) {
+    clearScoreBadges(document);
+    return;
+  }
+  const count = updateScoreBadges(document.body, config.phraseMap, config.scoreBadges);
+  debugLog(`Showing ${count} score badges`);
+}
+
+const SCORE_BADGE_DELAY_MS = 100;  // Content often arrives in bursts (infinite scroll)
+let scoreBadgeTimeout: number | undefined;
+
+function scheduleScoreBadges(config: ActiveConfig): void {
+  if (!config.scoreBadges) return;
+  clearTimeout(scoreBadgeTimeout);
+  scoreBadgeTimeout = window.setTimeout(() => {
+    if (currentConfig === config) showScoreBadges(config);
+  }, SCORE_BADGE_DELAY_MS);
 }
 
-async function highlightPage() {
+// Highlight the whole page, with config if it's already been read from settings
+async function highlightPage(config?: ActiveConfig | null) {
+  const generation = ++highlightGeneration;
   const startTime = performance.now();
   debugLog('Highlighting page...');
 
-  const config = await getActiveConfig();
+  if (config === undefined) {
+    config = await getActiveConfig();
+  }
   if (!config) {
     clearAllHighlights();
-    currentPhraseMap = null;
+    currentConfig = null;
     return;
   }
 
-  currentPhraseMap = config.phraseMap;
+  currentConfig = config;
 
   const textNodes = collectTextNodes(document.body);
-  const highlightCount = highlightNodes(textNodes, config.phraseMap);
+  const isCancelled = () => generation !== highlightGeneration;
+  const highlightCount = await highlightPageNodes(textNodes, config.phraseMap, config.options, getMatcherWorker, isCancelled);
+  if (!isCancelled()) {
+    finishedGeneration = generation;
+    showScoreBadges(config);
+  }
 
   const duration = performance.now() - startTime;
   debugLog(`Highlighted ${highlightCount} matches in ${duration.toFixed(0)}ms`, {
@@ -281,70 +1427,107 @@ async function highlightPage() {
   });
 }
 
+// Bring the page's highlights up to date with changed settings, redoing as little as
+// the change allows
 async function reHighlightPage() {
+  // Highlights from a pass that didn't finish can't be patched up
+  const previous = finishedGeneration === highlightGeneration ? currentConfig : null;
+  const config = await getActiveConfig();
+
+  if (previous && config) {
+    const generation = ++highlightGeneration;
+    const startTime = performance.now();
+    currentConfig = config;
+    const isCancelled = () => generation !== highlightGeneration;
+    const added = await updateHighlights(document.body, previous, config, isCancelled);
+    if (added !== null) {
+      if (!isCancelled()) {
+        finishedGeneration = generation;
+        showScoreBadges(config);
+      }
+      const duration = performance.now() - startTime;
+      debugLog(`Updated highlights for changed settings (${added} added) in ${duration.toFixed(0)}ms`);
+      return;
+    }
+  }
+
   debugLog('Re-highlighting page...');
   const cleared = clearAllHighlights();
   debugLog(`Cleared ${cleared} highlights`);
 
-  // Clear matcher cache so it rebuilds with new settings
-  clearMatcherCache();
-
-  await highlightPage();
+  await highlightPage(config);
 }
 
 // =============================================================================
 // MutationObserver - Only highlight NEW content
 // =============================================================================
 
-function startObserver() {
-  if (mutationObserver) {
-    mutationObserver.disconnect();
-  }
-
-  mutationObserver = new MutationObserver((mutations) => {
-    if (!currentPhraseMap) return;
+// Text nodes in content added to the page, leaving out our own highlights and splits
+// Exported for testing
+export function addedTextNodes(mutations: MutationRecord[]): Text[] {
+  const addedNodes: Node[] = [];
 
-    // Collect only ADDED nodes that we should process
-    const addedNodes: Node[] = [];
+  for (const mutation of mutations) {
+    // Only care about added nodes
+    if (mutation.type !== 'childList' || mutation.addedNodes.length === 0) continue;
 
-    for (const mutation of mutations) {
-      // Only care about added nodes
-      if (mutation.type !== 'childList' || mutation.addedNodes.length === 0) continue;
+    for (const node of mutation.addedNodes) {
+      // Skip our own highlights and wrappers
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        if ((node as Element).hasAttribute('data-makeitpop') || ownNodes.has(node)) continue;
+      }
 
-      for (const node of mutation.addedNodes) {
-        // Skip our own highlights
-        if (node.nodeType === Node.ELEMENT_NODE) {
-          if ((node as Element).hasAttribute('data-makeitpop')) continue;
-        }
+      // Skip text nodes in skip elements, and the pieces left around our highlights
+      if (node.nodeType === Node.TEXT_NODE) {
+        if (ownNodes.has(node)) continue;
+        const parent = node.parentNode as Element;
+        if (!parent || shouldSkipElement(parent)) continue;
+        if (parent.hasAttribute?.('data-makeitpop')) continue;
+      }
 
-        // Skip text nodes in skip elements
-        if (node.nodeType === Node.TEXT_NODE) {
-          const parent = node.parentNode as Element;
-          if (!parent || shouldSkipElement(parent)) continue;
-          if (parent.hasAttribute?.('data-makeitpop')) continue;
-        }
+      addedNodes.push(node);
+    }
+  }
 
-        addedNodes.push(node);
-      }
+  const textNodes: Text[] = [];
+  for (const node of addedNodes) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      textNodes.push(node as Text);
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      textNodes.push(...collectTextNodes(node));
     }
+  }
+  return textNodes;
+}
 
-    if (addedNodes.length === 0) return;
+// New content or a new title can bring in a waiting group's trigger: highlight the whole
+// page again, since the group's phrases may be in content that was already there.
+// Returns true if it did
+function highlightTriggeredGroups(config: ActiveConfig, text: string): boolean {
+  if (config.waiting.length === 0 || !activateTriggeredGroups(config, text)) return false;
 
-    // Collect text nodes from added content
-    const textNodes: Text[] = [];
-    for (const node of addedNodes) {
-      if (node.nodeType === Node.TEXT_NODE) {
-        textNodes.push(node as Text);
-      } else if (node.nodeType === Node.ELEMENT_NODE) {
-        textNodes.push(...collectTextNodes(node));
-      }
-    }
+  debugLog('MutationObserver: Re-highlighting page for triggered groups');
+  clearAllHighlights();
+  highlightPage(config);
+  return true;
+}
+
+function startObserver() {
+  stopObserver();
+
+  mutationObserver = new MutationObserver((mutations) => {
+    if (!currentConfig) return;
+    const config = currentConfig;
 
+    const textNodes = addedTextNodes(mutations);
     if (textNodes.length === 0) return;
 
+    if (highlightTriggeredGroups(config, textNodes.map(node => node.textContent || '').join('\n'))) return;
+
     debugLog(`MutationObserver: Processing ${textNodes.length} new text nodes`);
-    const count = highlightNodes(textNodes, currentPhraseMap);
+    const count = highlightNodes(textNodes, config.phraseMap, config.options);
     if (count > 0) {
+      scheduleScoreBadges(config);
       debugLog(`MutationObserver: Added ${count} highlights`);
     }
   });
@@ -355,10 +1538,23 @@ function startObserver() {
     // Note: NOT watching characterData - we don't care about typing
   });
 
+  // Single-page apps often change the title along with the content, without adding any
+  // text that a trigger matches. Only a <title> the page has when highlighting starts is
+  // watched: one added later is seen with the next change to the body
+  const title = document.querySelector('head > title');
+  if (title) {
+    titleObserver = new MutationObserver(() => {
+      if (currentConfig) highlightTriggeredGroups(currentConfig, '');
+    });
+    titleObserver.observe(title, { childList: true, characterData: true, subtree: true });
+  }
+
   debugLog('MutationObserver started');
 }
 
 function stopObserver() {
+  titleObserver?.disconnect();
+  titleObserver = null;
   if (mutationObserver) {
     mutationObserver.disconnect();
     mutationObserver = null;
@@ -394,17 +1590,17 @@ onStorageChanged((changes) => {
 // =============================================================================
 
 function init() {
-  // Wait for page to be ready
-  if (document.readyState === 'complete') {
-    setTimeout(() => {
-      highlightPage().then(() => startObserver());
-    }, 500);
+  // Highlighting is sliced and visible text goes first, so start as soon as the DOM is
+  // ready. The observer starts first so content added during the first pass is covered
+  const start = () => {
+    startObserver();
+    highlightPage();
+  };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', start, { once: true });
   } else {
-    window.addEventListener('load', () => {
-      setTimeout(() => {
-        highlightPage().then(() => startObserver());
-      }, 500);
-    });
+    start();
   }
 }
 
@@ -0,0 +1,92 @@
+// How highlights are drawn in each of the styles a group can pick, shared by the content
+// script and the previews in settings. Styles only use inline CSS on the highlight itself,
+// so the page's text (and what's matched in it) stays the same
+
+import type { HighlightStyle, HighlightStyleType } from './types';
+
+export const HIGHLIGHT_STYLE_TYPES: HighlightStyleType[] = ['fill', 'underline', 'outline', 'bold', 'badge'];
+
+export const HIGHLIGHT_STYLE_LABELS: Record<HighlightStyleType, string> = {
+  fill: 'Filled',
+  underline: 'Underline',
+  outline: 'Outline',
+  bold: 'Bold',
+  badge: 'Icon',
+};
+
+export const DEFAULT_HIGHLIGHT_THICKNESS = 2;
+export const MAX_HIGHLIGHT_THICKNESS = 6;
+export const DEFAULT_HIGHLIGHT_ICON = '●';
+
+export function isHighlightStyleType(value: unknown): value is HighlightStyleType {
+  return typeof value === 'string' && (HIGHLIGHT_STYLE_TYPES as string[]).includes(value);
+}
+
+// A highlight's colors (for the page's light or dark mode) and its group's style
+export interface HighlightLook {
+  bgColor: string;
+  textColor: string;
+  highlightStyle?: HighlightStyle;
+}
+
+// The icon as an image, drawn in color unless it's an emoji
+function iconImage(icon: string, color: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16">`
+    + `<text x="8" y="13" font-size="13" text-anchor="middle" fill="${color}">${icon.replace(/[<>&"]/g, '')}</text></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+// Style element as a highlight, replacing the inline styles it had. Nested highlights
+// (inside another match) are kept compact, and near-misses get a dashed outline so they
+// aren't mistaken for exact hits
+export function applyHighlightStyle(
+  element: HTMLElement,
+  look: HighlightLook,
+  marks: { nested?: boolean; fuzzy?: boolean } = {}
+): void {
+  const { bgColor, textColor } = look;
+  const highlightStyle = look.highlightStyle ?? { type: 'fill' };
+  const thickness = `${highlightStyle.thickness ?? DEFAULT_HIGHLIGHT_THICKNESS}px`;
+  const { style } = element;
+
+  element.removeAttribute('style');
+  style.fontStyle = 'inherit';
+  switch (highlightStyle.type) {
+    case 'fill':
+      style.backgroundColor = bgColor;
+      style.color = textColor;
+      style.borderRadius = '3px';
+      style.padding = marks.nested ? '0 2px' : '2px 4px';
+      // Nested highlights are underlined in the text color to stand out from the outer one
+      style.boxShadow = marks.nested ? `inset 0 -2px 0 ${textColor}` : '1px 1px rgba(0, 0, 0, 0.2)';
+      break;
+    case 'underline':
+      style.textDecorationLine = 'underline';
+      style.textDecorationStyle = highlightStyle.wavy ? 'wavy' : 'solid';
+      style.textDecorationColor = bgColor;
+      style.textDecorationThickness = thickness;
+      break;
+    case 'outline':
+      // A shadow rather than a border, so the text around it doesn't move
+      style.borderRadius = '3px';
+      style.padding = '0 2px';
+      style.boxShadow = `0 0 0 ${thickness} ${bgColor}`;
+      break;
+    case 'bold':
+      style.fontWeight = 'bold';
+      break;
+    case 'badge':
+      style.paddingLeft = '1.2em';
+      style.backgroundImage = `url("${iconImage(highlightStyle.icon || DEFAULT_HIGHLIGHT_ICON, bgColor)}")`;
+      style.backgroundRepeat = 'no-repeat';
+      style.backgroundPosition = 'left center';
+      style.backgroundSize = '1em 1em';
+      break;
+  }
+
+  if (marks.fuzzy) {
+    style.outlineStyle = 'dashed';
+    style.outlineWidth = '1px';
+    style.outlineColor = highlightStyle.type === 'fill' ? textColor : bgColor;
+  }
+}
@@ -0,0 +1,182 @@
+// Matcher benchmarks on large synthetic phrase sets and pages - run with `pnpm bench`
+// Compares the matcher against a naive reference (one indexOf scan per phrase), after
+// checking that both find the same matches, and reports the compiled phrases' memory use
+
+import { describe, bench, afterAll } from 'vitest';
+import { Matcher, findMatches, type Match, type PhraseMap } from './matcher';
+import { collectTextNodes, highlightNodes } from './content';
+
+const PHRASE_COUNTS = [1_000, 10_000, 20_000];
+const FUZZY_PHRASE_COUNT = 1_000;
+const FUZZY_DISTANCE = 2;
+const GROUP_COUNT = 10;
+const PARAGRAPHS = 200;
+const WORDS_PER_PARAGRAPH = 60;
+const SLOW_BENCH = { iterations: 3 };  // Instead of at least 10 runs
+
+const COLORS = [
+  { bgColor: '#ffeb3b', textColor: '#000000' },
+  { bgColor: '#4caf50', textColor: '#ffffff' },
+  { bgColor: '#2196f3', textColor: '#ffffff' },
+];
+
+// Seeded, so every run benchmarks the same phrases and pages
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const SYLLABLES = ['ka', 'lo', 'mi', 'ne', 'ru', 'sa', 'to', 'vi', 'de', 'po', 'qua', 'ber', 'lin', 'dor', 'ex', 'ism'];
+
+function makeWord(next: () => number): string {
+  const length = 2 + Math.floor(next() * 3);
+  let word = '';
+  for (let i = 0; i < length; i++) word += SYLLABLES[Math.floor(next() * SYLLABLES.length)];
+  return word;
+}
+
+// Phrases of one to three words, split into groups like a large config would be
+function makePhraseMap(count: number): PhraseMap {
+  const next = random(count);
+  const phraseMap: PhraseMap = new Map();
+  while (phraseMap.size < count) {
+    const words = Array.from({ length: 1 + Math.floor(next() * 3) }, () => makeWord(next));
+    const priority = Math.floor(next() * GROUP_COUNT);
+    phraseMap.set(words.join(' '), { ...COLORS[priority % COLORS.length], priority });
+  }
+  return phraseMap;
+}
+
+// Paragraphs of filler words with one of the phrases about every tenth word
+function makeParagraphs(phraseMap: PhraseMap): string[] {
+  const next = random(PARAGRAPHS);
+  const phrases = Array.from(phraseMap.keys());
+  return Array.from({ length: PARAGRAPHS }, () => {
+    const words: string[] = [];
+    for (let i = 0; i < WORDS_PER_PARAGRAPH; i++) {
+      const phrase = phrases[Math.floor(next() * phrases.length)];
+      words.push(next() < 0.1 ? phrase : makeWord(next));
+    }
+    return words.join(' ') + '.';
+  });
+}
+
+// The reference: every phrase searched for on its own, then the same overlap rules as
+// the matcher's default - groups in priority order, each keeping the left-most (then
+// longest) of its matches that don't overlap ones already kept
+function naiveFindMatches(text: string, phraseMap: PhraseMap): Match[] {
+  const lowerText = text.toLowerCase();
+  const isWordChar = (char: string | undefined) => char !== undefined && /\w/.test(char);
+
+  const matches: Match[] = [];
+  for (const [phrase, info] of phraseMap) {
+    const lowerPhrase = phrase.toLowerCase();
+    for (let start = lowerText.indexOf(lowerPhrase); start !== -1; start = lowerText.indexOf(lowerPhrase, start + 1)) {
+      const end = start + phrase.length;
+      if (isWordChar(text[start - 1]) || isWordChar(text[end])) continue;
+      matches.push({ start, end, phrase, bgColor: info.bgColor, textColor: info.textColor, priority: info.priority ?? 0 });
+    }
+  }
+
+  matches.sort((a, b) => a.priority - b.priority || a.start - b.start || b.end - a.end);
+  const kept: Match[] = [];
+  for (const match of matches) {
+    if (kept.every(other => match.end <= other.start || other.end <= match.start)) kept.push(match);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+function assertSameMatches(phraseMap: PhraseMap, paragraphs: string[]): void {
+  for (const text of paragraphs) {
+    const expected = JSON.stringify(naiveFindMatches(text, phraseMap));
+    const actual = JSON.stringify(findMatches(text, phraseMap));
+    if (actual !== expected) {
+      throw new Error(`Matcher and reference disagree on "${text}":\n  ${actual}\n  ${expected}`);
+    }
+  }
+}
+
+// Benchmarks run in Node, which the project's (browser) types don't cover
+declare const process: { memoryUsage(): { heapUsed: number } };
+
+// Heap growth from building a matcher, most accurate with `node --expose-gc`
+function measureBuild(phraseMap: PhraseMap): { buildMs: number; heapMb: number } {
+  const gc = (globalThis as { gc?: () => void }).gc;
+  gc?.();
+  const heapBefore = process.memoryUsage().heapUsed;
+  const startTime = performance.now();
+  const matcher = new Matcher(phraseMap).build();
+  const buildMs = performance.now() - startTime;
+  gc?.();
+  const heapMb = (process.memoryUsage().heapUsed - heapBefore) / 1024 / 1024;
+  matcher.dispose();
+  return { buildMs, heapMb };
+}
+
+const report: Record<string, { phrases: number; buildMs: string; heapMb: string }> = {};
+
+afterAll(() => {
+  console.log('\nMatcher build cost (one build each):');
+  console.table(report);
+});
+
+for (const count of PHRASE_COUNTS) {
+  const phraseMap = makePhraseMap(count);
+  const paragraphs = makeParagraphs(phraseMap);
+  const page = paragraphs.join('\n');
+  const html = paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('');
+
+  assertSameMatches(phraseMap, paragraphs);
+  const { buildMs, heapMb } = measureBuild(phraseMap);
+  report[`${count} phrases`] = { phrases: count, buildMs: buildMs.toFixed(1), heapMb: heapMb.toFixed(1) };
+
+  describe(`${count} phrases, ${page.length} characters`, () => {
+    bench('build', () => {
+      new Matcher(phraseMap).build();
+    }, SLOW_BENCH);
+
+    const matcher = new Matcher(phraseMap).build();
+
+    bench('search page', () => {
+      matcher.search(page);
+    });
+
+    bench('search paragraphs', () => {
+      for (const paragraph of paragraphs) matcher.search(paragraph);
+    });
+
+    bench('naive reference, search paragraphs', () => {
+      for (const paragraph of paragraphs) naiveFindMatches(paragraph, phraseMap);
+    }, SLOW_BENCH);
+
+    bench('highlightNodes', () => {
+      document.body.innerHTML = html;
+      highlightNodes(collectTextNodes(document.body), phraseMap);
+    }, SLOW_BENCH);
+  });
+}
+
+// Near-misses: every phrase matches within a couple of edits, on a page where some
+// letters are swapped, so most words are close to a phrase but few are exact hits
+{
+  const phraseMap: PhraseMap = new Map(Array.from(makePhraseMap(FUZZY_PHRASE_COUNT),
+    ([phrase, info]) => [phrase, { ...info, fuzzyDistance: FUZZY_DISTANCE }]));
+  const paragraphs = makeParagraphs(phraseMap).map(paragraph => paragraph.replace(/o/g, 'u'));
+  const page = paragraphs.join('\n');
+
+  describe(`${FUZZY_PHRASE_COUNT} fuzzy phrases, ${page.length} characters`, () => {
+    const matcher = new Matcher(phraseMap).build();
+
+    bench('search page', () => {
+      matcher.search(page);
+    });
+
+    bench('search paragraphs', () => {
+      for (const paragraph of paragraphs) matcher.search(paragraph);
+    });
+  });
+}
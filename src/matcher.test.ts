@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { findMatches, type PhraseMap, type Match } from './matcher';
+import {
+  findMatches,
+  validateRegexPhrase,
+  serializePhrases,
+  loadSerializedPhrases,
+  Matcher,
+  type PhraseInfo,
+  type PhraseMap,
+  type Match,
+} from './matcher';
+import type { PatternType } from './types';
 
 const GREEN = { bgColor: '#00ff00', textColor: '#000000' };
 const BLUE = { bgColor: '#0000ff', textColor: '#ffffff' };
@@ -115,3 +125,918 @@ describe('Phrase Matching - Longest Match Wins', () => {
     ]);
   });
 });
+
+describe('Phrase Matching - Regular Expressions', () => {
+  it('should match regex phrases alongside literal phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['/senior\\s+(staff|principal)/i', { ...RED, regex: true }],
+      ['remote', { ...GREEN }],
+    ]);
+    const text = 'Senior  Staff engineer, remote';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'Senior  Staff', color: RED },
+      { text: 'remote', color: GREEN },
+    ]);
+  });
+
+  it('should resolve overlaps between regex and literal matches by length', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['code', { ...GREEN }],
+      ['/code\\s+reviews?/', { ...RED, regex: true }],
+    ]);
+    const text = 'Two code reviews today';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'code reviews', color: RED },
+    ]);
+  });
+
+  it('should be case-sensitive unless the i flag is given', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['/Go\\b/', { ...BLUE, regex: true }],
+    ]);
+
+    expect(findMatches('go home', phraseMap)).toEqual([]);
+    expect(textAndColorPairs('Written in Go', findMatches('Written in Go', phraseMap))).toEqual([
+      { text: 'Go', color: BLUE },
+    ]);
+  });
+
+  it('should match phrases written like /pattern/ literally unless regex is turned on', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['/r/', RED],
+      ['/dev/', GREEN],
+    ]);
+    const text = 'Posted in /r/jobs, logs go to /dev/null, never r or dev';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: '/r/', color: RED },
+      { text: '/dev/', color: GREEN },
+    ]);
+  });
+
+  it('should reject patterns prone to catastrophic backtracking', () => {
+    expect(validateRegexPhrase('/(a+)+$/')).toMatch(/freeze/);
+    expect(validateRegexPhrase('/(a|aa)*b/')).toMatch(/freeze/);
+    expect(validateRegexPhrase('/((ab)*c)+/')).toMatch(/freeze/);
+    expect(validateRegexPhrase('/senior\\s+(staff|principal)/i')).toBeNull();
+    expect(validateRegexPhrase('/(staff|principal)?/')).toMatch(/empty/);
+  });
+
+  it('should reject repeats next to each other that can match the same text', () => {
+    expect(validateRegexPhrase('/\\w*\\w*\\w*x/')).toMatch(/freeze/);
+    expect(validateRegexPhrase('/\\w+\\s*\\w+x/')).toMatch(/freeze/);
+    expect(validateRegexPhrase('/.*a.*x/')).toMatch(/freeze/);
+    expect(validateRegexPhrase('/(\\w+)\\w+!/')).toMatch(/freeze/);
+    expect(validateRegexPhrase('/a{1,100}a{1,100}b/')).toMatch(/freeze/);
+
+    expect(validateRegexPhrase('/\\d+\\.\\d+/')).toBeNull();
+    expect(validateRegexPhrase('/\\w+\\s+\\w+/')).toBeNull();
+    expect(validateRegexPhrase('/(\\d+)-(\\d+)/')).toBeNull();
+    expect(validateRegexPhrase('/senior.*engineer/i')).toBeNull();
+  });
+
+  it('should find regex matches all through texts longer than one search slice', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['/senior\\s+staff/i', { ...RED, regex: true }],
+    ]);
+    const text = 'filler '.repeat(1000) + 'Senior Staff ' + 'a'.repeat(5000) + ' senior staff';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'Senior Staff', color: RED },
+      { text: 'senior staff', color: RED },
+    ]);
+  });
+
+  it('should report invalid patterns and flags', () => {
+    expect(validateRegexPhrase('/senior(/')).toMatch(/Invalid pattern/);
+    expect(validateRegexPhrase('/senior/x')).toMatch(/Unsupported flag "x"/);
+    expect(validateRegexPhrase('plain phrase')).toBeNull();
+  });
+
+  it('should skip invalid regex phrases instead of throwing', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['/(a+)+$/', { ...RED, regex: true }],
+      ['remote', { ...GREEN }],
+    ]);
+    const text = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaa! remote';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'remote', color: GREEN },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Wildcards', () => {
+  it('should match any word ending with a trailing *', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['deploy*', GREEN],
+    ]);
+    const text = 'We deploy daily; deploys and deployment are automated, redeploy too';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'deploy', color: GREEN },
+      { text: 'deploys', color: GREEN },
+      { text: 'deployment', color: GREEN },
+    ]);
+  });
+
+  it('should match exactly one word character for ? inside a word', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['re?iew', BLUE],
+    ]);
+    const text = 'Please review, not rewiew or reviews or preview';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'review', color: BLUE },
+      { text: 'rewiew', color: BLUE },
+    ]);
+  });
+
+  it('should match leading wildcards and wildcards inside multi-word phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['*script', GREEN],
+      ['code review*', RED],
+    ]);
+    const text = 'JavaScript and TypeScript code reviewers';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'JavaScript', color: GREEN },
+      { text: 'TypeScript', color: GREEN },
+      { text: 'code reviewers', color: RED },
+    ]);
+  });
+
+  it('should treat trailing ? and escaped wildcards as literal characters', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['Why?', GREEN],
+      ['5\\*', BLUE],
+    ]);
+    const text = 'Why? Rated 5* by 50 people';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'Why?', color: GREEN },
+      { text: '5*', color: BLUE },
+    ]);
+  });
+
+  it('should use case-sensitive matching for all-uppercase wildcard phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['API*', BLUE],
+    ]);
+    const text = 'APIs are not apis';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'APIs', color: BLUE },
+    ]);
+  });
+
+  it('should let longer literal matches win over overlapping wildcard matches', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['deploy*', GREEN],
+      ['deployment pipeline', RED],
+    ]);
+    const text = 'Fix the deployment pipeline';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'deployment pipeline', color: RED },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Case Modes', () => {
+  it('should match mixed-case phrases exactly when case-sensitive', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['GitHub', { ...GREEN, caseMode: 'sensitive' }],
+    ]);
+    const text = 'GitHub is not github';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'GitHub', color: GREEN },
+    ]);
+  });
+
+  it('should match all-uppercase phrases in any case when case-insensitive', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['IT', { ...BLUE, caseMode: 'insensitive' }],
+    ]);
+    const text = 'IT support, it works';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'IT', color: BLUE },
+      { text: 'it', color: BLUE },
+    ]);
+  });
+
+  it('should keep the all-uppercase heuristic in auto mode', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['US', { ...BLUE, caseMode: 'auto' }],
+      ['iOS', { ...GREEN, caseMode: 'auto' }],
+    ]);
+    const text = 'Tell us: US users on IOS';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'US', color: BLUE },
+      { text: 'IOS', color: GREEN },
+    ]);
+  });
+
+  it('should apply case modes to wildcard phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['Type*', { ...GREEN, caseMode: 'sensitive' }],
+    ]);
+    const text = 'TypeScript types';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'TypeScript', color: GREEN },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Unicode Word Boundaries', () => {
+  it('should not match accented phrases inside longer words', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['café', GREEN],
+    ]);
+    const text = 'Two cafés and one café';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'café', color: GREEN },
+    ]);
+  });
+
+  it('should respect word boundaries in Cyrillic and Greek text', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['удалённо', GREEN],
+      ['λόγος', BLUE],
+    ]);
+    const text = 'Работа удалённо, не удалённой; λόγος, όχι λόγοσ';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'удалённо', color: GREEN },
+      { text: 'λόγος', color: BLUE },
+    ]);
+  });
+
+  it('should apply the all-uppercase heuristic to non-Latin scripts', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['США', RED],
+    ]);
+
+    expect(findMatches('сша', phraseMap)).toEqual([]);
+    expect(textAndColorPairs('Только США', findMatches('Только США', phraseMap))).toEqual([
+      { text: 'США', color: RED },
+    ]);
+  });
+
+  it('should use word segmentation for scripts written without spaces', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['東京', GREEN],
+      ['京都', BLUE],
+    ]);
+    // 東京都 segments as 東京 + 都, so 京都 straddles a word edge and must not match
+    const text = '東京都に住んでいます';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: '東京', color: GREEN },
+    ]);
+  });
+
+  it('should match spaced-script words that sit directly next to unspaced text', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['API', BLUE],
+    ]);
+    const text = '使用API接口';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'API', color: BLUE },
+    ]);
+  });
+
+  it('should use Unicode word characters in wildcards', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['caf*', GREEN],
+    ]);
+    const text = 'café cafés';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'café', color: GREEN },
+      { text: 'cafés', color: GREEN },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Ignoring Accents', () => {
+  it('should match accented text with unaccented phrases and vice versa', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['resume', { ...GREEN, ignoreAccents: true }],
+      ['Zürich', { ...BLUE, ignoreAccents: true }],
+    ]);
+    const text = 'Send your résumé to our Zurich office';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'résumé', color: GREEN },
+      { text: 'Zurich', color: BLUE },
+    ]);
+  });
+
+  it('should keep accents significant unless the option is set', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['resume', GREEN],
+    ]);
+    const text = 'résumé';
+
+    expect(findMatches(text, phraseMap)).toEqual([]);
+  });
+
+  it('should report offsets in the original text for decomposed accents', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['cafe', { ...GREEN, ignoreAccents: true }],
+    ]);
+    // "café" written as "e" followed by a combining acute accent
+    const text = 'the cafe\u0301 is open';
+
+    const matches = findMatches(text, phraseMap);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].start).toBe(4);
+    expect(textOf(text, matches[0])).toBe('cafe\u0301');
+  });
+
+  it('should still respect case-sensitive phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['ÉTÉ', { ...RED, ignoreAccents: true }],
+    ]);
+    const text = 'ete ETE été';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'ETE', color: RED },
+    ]);
+  });
+
+  it('should ignore accents in wildcard phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['naive*', { ...GREEN, ignoreAccents: true }],
+    ]);
+    const text = 'naïvely naïveté';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'naïvely', color: GREEN },
+      { text: 'naïveté', color: GREEN },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Offsets After Case Folding', () => {
+  it('should keep offsets aligned after characters that grow when lowercased', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['ankara', GREEN],
+    ]);
+    // "İ" lowercases to two code units ("i" + combining dot)
+    const text = 'İİİ İstanbul and Ankara';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'Ankara', color: GREEN },
+    ]);
+  });
+
+  it('should match phrases that contain such characters', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['İstanbul', BLUE],
+      ['izmir', GREEN],
+    ]);
+    const text = 'İSTANBUL, İstanbul and İzmir';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'İSTANBUL', color: BLUE },
+      { text: 'İstanbul', color: BLUE },
+    ]);
+  });
+
+  it('should match phrases containing emoji', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['ship it 🚀', GREEN],
+      ['🔥', RED],
+    ]);
+    const text = '🔥 Ready to ship it 🚀 today 🔥';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: '🔥', color: RED },
+      { text: 'ship it 🚀', color: GREEN },
+      { text: '🔥', color: RED },
+    ]);
+  });
+
+  it('should not split emoji with skin tones or zero-width joiners', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['👍', GREEN],
+      ['💻', BLUE],
+    ]);
+    const text = '👍🏽 👍 👨‍💻 💻';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: '👍', color: GREEN },
+      { text: '💻', color: BLUE },
+    ]);
+    expect(findMatches(text, phraseMap).map(match => match.start)).toEqual([5, 14]);
+  });
+
+  it('should not match a base letter that carries a combining mark', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['a+', GREEN],
+    ]);
+    const text = 'a+́ a+';
+
+    expect(findMatches(text, phraseMap).map(match => match.start)).toEqual([4]);
+  });
+});
+
+describe('Phrase Matching - Word Forms', () => {
+  it('should match inflected forms and highlight the whole word', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['review', { ...GREEN, matchWordForms: true }],
+    ]);
+    const text = 'She reviews, reviewed and is reviewing the review';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'reviews', color: GREEN },
+      { text: 'reviewed', color: GREEN },
+      { text: 'reviewing', color: GREEN },
+      { text: 'review', color: GREEN },
+    ]);
+  });
+
+  it('should only match other word forms when the option is set', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['review', GREEN],
+    ]);
+    const text = 'reviews reviewed';
+
+    expect(findMatches(text, phraseMap)).toEqual([]);
+  });
+
+  it('should match every word of a multi-word phrase in order', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['code review', { ...BLUE, matchWordForms: true }],
+    ]);
+    const text = 'Code reviews and reviewed code, code. Reviews';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'Code reviews', color: BLUE },
+    ]);
+  });
+
+  it('should handle spelling changes and keep case-sensitive phrases exact', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['study', { ...GREEN, matchWordForms: true }],
+      ['API', { ...RED, matchWordForms: true }],
+    ]);
+    const text = 'studies studied APIs apis';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'studies', color: GREEN },
+      { text: 'studied', color: GREEN },
+      { text: 'APIs', color: RED },
+    ]);
+  });
+
+  it('should match inflections but not other words sharing a root', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['university', { ...GREEN, matchWordForms: true }],
+      ['engineer', { ...BLUE, matchWordForms: true }],
+      ['use', { ...RED, matchWordForms: true }],
+    ]);
+    const text = 'universities, universe, universal; engineers engineering engine; used uses user';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'universities', color: GREEN },
+      { text: 'engineers', color: BLUE },
+      { text: 'engineering', color: BLUE },
+      { text: 'used', color: RED },
+      { text: 'uses', color: RED },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Fuzzy', () => {
+  it('should match misspellings within the edit distance and flag them', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['kubernetes', { ...GREEN, fuzzyDistance: 1 }],
+      ['postgres', { ...BLUE, fuzzyDistance: 1 }],
+    ]);
+    const text = 'Experience with kubernets, Kubernetes and postgress';
+
+    const matches = findMatches(text, phraseMap);
+    expect(textAndColorPairs(text, matches)).toEqual([
+      { text: 'kubernets', color: GREEN },
+      { text: 'Kubernetes', color: GREEN },
+      { text: 'postgress', color: BLUE },
+    ]);
+    expect(matches.map(match => match.fuzzy === true)).toEqual([true, false, true]);
+  });
+
+  it('should not match words beyond the edit distance', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['kubernetes', { ...GREEN, fuzzyDistance: 1 }],
+    ]);
+    const text = 'kubrnets kubernetesss';
+
+    expect(findMatches(text, phraseMap)).toEqual([]);
+  });
+
+  it('should not fuzz short phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['cat', { ...GREEN, fuzzyDistance: 2 }],
+    ]);
+    const text = 'car cut cat';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'cat', color: GREEN },
+    ]);
+  });
+
+  it('should prefer exact matches over fuzzy ones on the same text', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['reach', { ...RED }],
+      ['react', { ...GREEN, fuzzyDistance: 1 }],
+    ]);
+    const text = 'reach';
+
+    const matches = findMatches(text, phraseMap);
+    expect(textAndColorPairs(text, matches)).toEqual([
+      { text: 'reach', color: RED },
+    ]);
+    expect(matches[0].fuzzy).toBeUndefined();
+  });
+
+  it('should spread the edit distance across multi-word phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['machine learning', { ...BLUE, fuzzyDistance: 2 }],
+    ]);
+    const text = 'machin lerning, machne lernin';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'machin lerning', color: BLUE },
+    ]);
+  });
+
+  it('should match near-misses at either end of a word', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['kubernetes', { ...GREEN, fuzzyDistance: 2 }],
+    ]);
+    const text = 'cubernetes ubernetes kubernetesX xubernetex kuberentes';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap)).map(pair => pair.text)).toEqual([
+      'cubernetes', 'ubernetes', 'kubernetesX', 'xubernetex', 'kuberentes',
+    ]);
+  });
+
+  it('should stop looking for near-misses after the per-text limit', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['kubernetes', { ...GREEN, fuzzyDistance: 1 }],
+    ]);
+    const text = 'kubernets '.repeat(1000);
+
+    expect(findMatches(text, phraseMap)).toHaveLength(500);
+  });
+});
+
+describe('Phrase Matching - Typographic Variants', () => {
+  it('should treat non-breaking and other Unicode spaces as spaces', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['New York', GREEN],
+    ]);
+    const text = 'New\u00a0York, New\u202fYork and New \u2003 York';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'New\u00a0York', color: GREEN },
+      { text: 'New\u202fYork', color: GREEN },
+      { text: 'New \u2003 York', color: GREEN },
+    ]);
+  });
+
+  it('should ignore soft hyphens and zero-width spaces inside words', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['kubernetes', GREEN],
+      ['net', RED],
+    ]);
+    const text = 'kuber\u00adnetes and kuber\u200bnetes on the inter\u00adnet';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'kuber\u00adnetes', color: GREEN },
+      { text: 'kuber\u200bnetes', color: GREEN },
+    ]);
+  });
+
+  it('should treat all dash characters as hyphens', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['full-time', GREEN],
+      ['9-5', BLUE],
+    ]);
+    const text = 'full‐time, full–time, full—time, 9−5';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'full‐time', color: GREEN },
+      { text: 'full–time', color: GREEN },
+      { text: 'full—time', color: GREEN },
+      { text: '9−5', color: BLUE },
+    ]);
+  });
+
+  it('should treat curly quotes as straight quotes', () => {
+    const phraseMap: PhraseMap = new Map([
+      ["don't", GREEN],
+      ['"remote"', BLUE],
+    ]);
+    const text = 'We don’t mind “remote” work';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'don’t', color: GREEN },
+      { text: '“remote”', color: BLUE },
+    ]);
+  });
+
+  it('should normalize text for case-sensitive, wildcard and word-form phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['AWS Lambda', { ...RED, caseMode: 'sensitive' }],
+      ['on-call*', { ...GREEN }],
+      ['code review', { ...BLUE, matchWordForms: true }],
+    ]);
+    const text = 'AWS\u00a0Lambda on–calls code\u00a0reviews';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'AWS\u00a0Lambda', color: RED },
+      { text: 'on–calls', color: GREEN },
+      { text: 'code\u00a0reviews', color: BLUE },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Priority', () => {
+  it('should let higher-priority phrases win overlaps even when shorter', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['code review', { ...GREEN, priority: 1 }],
+      ['review', { ...RED, priority: 0 }],
+    ]);
+    const text = 'Please do a code review';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'review', color: RED },
+    ]);
+  });
+
+  it('should keep the longest match among equal priorities', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['code review', { ...GREEN, priority: 0 }],
+      ['review', { ...RED, priority: 0 }],
+    ]);
+    const text = 'code review';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'code review', color: GREEN },
+    ]);
+  });
+
+  it('should still keep lower-priority matches that do not overlap', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['senior engineer', { ...GREEN, priority: 2 }],
+      ['engineer', { ...RED, priority: 0 }],
+      ['remote', { ...BLUE, priority: 1 }],
+    ]);
+    const text = 'senior engineer, remote, senior';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'engineer', color: RED },
+      { text: 'remote', color: BLUE },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Overlap Strategies', () => {
+  const phraseMap: PhraseMap = new Map([
+    ['security', { ...RED, priority: 0 }],
+    ['security issue', { ...GREEN, priority: 1 }],
+  ]);
+  const text = 'Found a security issue';
+
+  it('should let the higher-priority phrase win by default', () => {
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'security', color: RED },
+    ]);
+  });
+
+  it('should keep the longest phrase with longest-wins', () => {
+    const matches = findMatches(text, phraseMap, { overlapStrategy: 'longest-wins' });
+    expect(textAndColorPairs(text, matches)).toEqual([
+      { text: 'security issue', color: GREEN },
+    ]);
+  });
+
+  it('should keep inner matches with their depth when nested', () => {
+    const matches = findMatches(text, phraseMap, { overlapStrategy: 'nested' });
+    expect(textAndColorPairs(text, matches)).toEqual([
+      { text: 'security issue', color: GREEN },
+      { text: 'security', color: RED },
+    ]);
+    expect(matches.map(match => match.depth)).toEqual([0, 1]);
+  });
+
+  it('should drop partially overlapping matches when nested', () => {
+    const crossingMap: PhraseMap = new Map([
+      ['code review', { ...GREEN, priority: 0 }],
+      ['review process', { ...BLUE, priority: 1 }],
+      ['review', { ...RED, priority: 2 }],
+    ]);
+    const crossingText = 'our code review process';
+
+    const matches = findMatches(crossingText, crossingMap, { overlapStrategy: 'nested' });
+    expect(textAndColorPairs(crossingText, matches)).toEqual([
+      { text: 'code review', color: GREEN },
+      { text: 'review', color: RED },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Exclusions', () => {
+  it('should suppress matches that overlap an exclusion phrase', () => {
+    const exclusions: PhraseMap = new Map([['A/B test', GREEN]]);
+    const phraseMap: PhraseMap = new Map([['test', { ...RED, exclusions }]]);
+    const text = 'Run an A/B test, then test again';
+
+    const matches = findMatches(text, phraseMap);
+
+    expect(matches.map(match => match.start)).toEqual([22]);
+    expect(textOf(text, matches[0])).toBe('test');
+  });
+
+  it('should suppress wildcard matches inside an excluded word', () => {
+    const exclusions: PhraseMap = new Map([['JavaScript', GREEN]]);
+    const phraseMap: PhraseMap = new Map([['Java*', { ...RED, exclusions }]]);
+    const text = 'Java and JavaScript and Javas';
+
+    expect(findMatches(text, phraseMap).map(match => textOf(text, match))).toEqual(['Java', 'Javas']);
+  });
+
+  it('should only suppress the phrases the exclusions belong to', () => {
+    const exclusions: PhraseMap = new Map([['A/B test', GREEN]]);
+    const phraseMap: PhraseMap = new Map([
+      ['A/B', { ...BLUE }],
+      ['test', { ...RED, exclusions }],
+    ]);
+    const text = 'Run an A/B test';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'A/B', color: BLUE },
+    ]);
+  });
+
+  it('should let a suppressed match give way to an overlapping one', () => {
+    const exclusions: PhraseMap = new Map([['unit test suite', GREEN]]);
+    const phraseMap: PhraseMap = new Map([
+      ['unit test', { ...RED, priority: 0, exclusions }],
+      ['test suite', { ...BLUE, priority: 1 }],
+    ]);
+    const text = 'the unit test suite passed';
+
+    expect(textAndColorPairs(text, findMatches(text, phraseMap))).toEqual([
+      { text: 'test suite', color: BLUE },
+    ]);
+  });
+});
+
+describe('Phrase Matching - Serialized Phrases', () => {
+  // As the background script compiles them: every group's phrases, without colors
+  const NO_COLOR = { bgColor: '', textColor: '' };
+  const allPhrases: PhraseMap = new Map([
+    ['remote', { ...NO_COLOR }],
+    ['Remote (US)', NO_COLOR],
+    ['US', NO_COLOR],
+    ['resume', { ...NO_COLOR, ignoreAccents: true }],
+    ['she', NO_COLOR],
+    ['he', NO_COLOR],
+    ['hers', NO_COLOR],
+    ['Go', { ...NO_COLOR, caseMode: 'sensitive' }],
+  ]);
+  const serialized = () => JSON.parse(JSON.stringify(serializePhrases(allPhrases)));
+
+  it('should find the same matches as compiling the phrases locally', () => {
+    const entries: [string, PhraseInfo][] = [
+      ['remote', { ...GREEN, priority: 0 }],
+      ['Remote (US)', { ...RED, priority: 0 }],
+      ['resume', { ...BLUE, priority: 1, ignoreAccents: true }],
+      ['he', { ...BLUE, priority: 1 }],
+      ['hers', { ...GREEN, priority: 0 }],
+      ['Go', { ...RED, priority: 2, caseMode: 'sensitive' }],
+      ['/\\d+ years?/', { ...GREEN, priority: 2, regex: true }],
+    ];
+    const loaded: PhraseMap = new Map(entries);
+    const text = 'Remote (US) or remote, résumé: she has hers, 5 years of Go but not go';
+
+    expect(loadSerializedPhrases(loaded, serialized())).toBe(true);
+    expect(findMatches(text, loaded)).toEqual(findMatches(text, new Map(entries)));
+  });
+
+  it('should leave out phrases that are not in the phrase map', () => {
+    const phraseMap: PhraseMap = new Map([['he', GREEN]]);
+    const text = 'she said';
+
+    expect(loadSerializedPhrases(phraseMap, serialized())).toBe(true);
+    expect(findMatches(text, phraseMap)).toEqual([]);
+  });
+
+  it('should compile locally when a phrase is missing from the serialized phrases', () => {
+    const phraseMap: PhraseMap = new Map([
+      ['remote', { ...GREEN }],
+      ['hybrid', BLUE],
+    ]);
+    const text = 'remote or hybrid';
+
+    expect(loadSerializedPhrases(phraseMap, serialized())).toBe(false);
+    expect(findMatches(text, phraseMap).map(match => textOf(text, match))).toEqual(['remote', 'hybrid']);
+  });
+
+  it('should compile locally when a phrase has other case or accent settings', () => {
+    expect(loadSerializedPhrases(new Map([['remote', { ...GREEN, caseMode: 'sensitive' }]]), serialized())).toBe(false);
+    expect(loadSerializedPhrases(new Map([['resume', GREEN]]), serialized())).toBe(false);
+  });
+});
+
+describe('Phrase Matching - Matcher', () => {
+  const text = 'Remote JavaScript role, remote only';
+
+  it('should keep several phrase maps compiled side by side', () => {
+    const page = new Matcher(new Map([['remote', GREEN]])).build();
+    const preview = new Matcher(new Map([['role', RED]])).build();
+
+    expect(textAndColorPairs(text, page.search(text))).toEqual([
+      { text: 'Remote', color: GREEN },
+      { text: 'remote', color: GREEN },
+    ]);
+    expect(textAndColorPairs(text, preview.search(text))).toEqual([{ text: 'role', color: RED }]);
+  });
+
+  it('should apply its case mode to phrases without their own', () => {
+    const matcher = new Matcher(new Map([
+      ['remote', { ...GREEN }],
+      ['ONLY', { ...RED, caseMode: 'insensitive' }],
+    ]), { caseMode: 'sensitive' });
+
+    expect(matcher.search(text).map(match => match.start)).toEqual([24, 31]);
+  });
+
+  it('should match inside words without word boundaries', () => {
+    const phraseMap: PhraseMap = new Map([['java', GREEN]]);
+
+    expect(new Matcher(phraseMap).search(text)).toEqual([]);
+    expect(new Matcher(phraseMap, { wordBoundaries: false }).search(text).map(match => textOf(text, match))).toEqual(['Java']);
+  });
+
+  it('should use its overlap strategy unless a search overrides it', () => {
+    const matcher = new Matcher(new Map([
+      ['remote', { ...GREEN, priority: 0 }],
+      ['remote only', { ...RED, priority: 1 }],
+    ]), { overlapStrategy: 'longest-wins' });
+
+    expect(matcher.search(text).map(match => textOf(text, match))).toEqual(['Remote', 'remote only']);
+    expect(matcher.search(text, { overlapStrategy: 'priority-wins' }).map(match => textOf(text, match))).toEqual(['Remote', 'remote']);
+  });
+
+  it('should build again when searched after being disposed', () => {
+    const matcher = new Matcher(new Map([['role', RED]]));
+    const matches = matcher.search(text);
+
+    matcher.dispose();
+
+    expect(matcher.search(text)).toEqual(matches);
+  });
+});
+
+describe('Phrase Matching - Patterns', () => {
+  const matchesOf = (pattern: PatternType, text: string) =>
+    findMatches(text, new Map([[`pattern:${pattern}`, { ...GREEN, pattern }]])).map(match => textOf(text, match));
+
+  it('should match email addresses', () => {
+    expect(matchesOf('email', 'Send it to jane.doe+jobs@example.co.uk, or @jane.')).toEqual(['jane.doe+jobs@example.co.uk']);
+  });
+
+  it('should match amounts in different locales', () => {
+    expect(matchesOf('currency', 'Pay $120k, €45.000,50 or 1’200 CHF, not 120 apples')).toEqual(['$120k', '€45.000,50', '1’200 CHF']);
+  });
+
+  it('should match salary ranges', () => {
+    expect(matchesOf('salary', 'Salary: $120k–$150k, or €50.000 - 60.000 p.a. from 2026')).toEqual([
+      '$120k–$150k',
+      '€50.000 - 60.000 p.a.',
+    ]);
+  });
+
+  it('should match valid dates only', () => {
+    expect(matchesOf('date', 'Apply by 2026-10-19, 19/10/2026 or October 19th, 2026 - not 2026-13-45 or 31/31/2026'))
+      .toEqual(['2026-10-19', '19/10/2026', 'October 19th, 2026']);
+  });
+
+  it('should match version numbers but not addresses or dates', () => {
+    expect(matchesOf('version', 'Upgrade from v2.3 to 2.3.1 or 1.0.0-beta.2, not 192.168.1.1 or 19.10.2026'))
+      .toEqual(['v2.3', '2.3.1', '1.0.0-beta.2']);
+  });
+});
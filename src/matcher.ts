@@ -1,12 +1,34 @@
 // Phrase matching using Aho-Corasick algorithm for O(n) multi-pattern matching
 // This replaces the naive O(n × m) approach with a single-pass algorithm
+// Phrases written as /pattern/flags (regex, in groups that turn them on) or with * and ?
+// wildcards are matched with regular expressions alongside it, word-form phrases by comparing word stems and
+// fuzzy phrases by bounded edit distance
+
+import type { CaseMode, GroupAction, HighlightStyle, OverlapStrategy, PatternType } from './types';
+import { stem } from './stemmer';
+import { patternRecognizer } from './patterns';
 
 export interface PhraseColors {
   bgColor: string;
   textColor: string;
 }
 
-export type PhraseMap = Map<string, PhraseColors>;
+// Per-phrase matching options, alongside the colors to highlight with
+export interface PhraseInfo extends PhraseColors {
+  caseMode?: CaseMode;  // Defaults to 'auto'
+  regex?: boolean;  // Read a phrase written as /pattern/flags as a regular expression (otherwise it's literal)
+  ignoreAccents?: boolean;  // Match "resume" against "résumé"
+  priority?: number;  // Lower wins overlaps with other phrases (the group's position). Defaults to 0
+  matchWordForms?: boolean;  // Match "review" against "reviews", "reviewed", "reviewing"
+  fuzzyDistance?: number;  // Also match near-misses within this many edits ("kubernets")
+  exclusions?: PhraseMap;  // Drop matches that overlap a match of one of these ("test" in "A/B test")
+  pattern?: PatternType;  // Match a built-in pattern (see patterns.ts) instead of the phrase
+  highlightStyle?: HighlightStyle;  // How matches are drawn. Defaults to a filled background
+  weight?: number;  // Not used for matching: what a match adds to its page region's score
+  action?: GroupAction;  // Not used for matching: what happens to the element around a match
+}
+
+export type PhraseMap = Map<string, PhraseInfo>;
 
 export interface Match {
   start: number;
@@ -14,36 +36,590 @@ export interface Match {
   phrase: string;  // Original phrase (for case preservation)
   bgColor: string;
   textColor: string;
+  priority: number;  // From the phrase's PhraseInfo
+  highlightStyle?: HighlightStyle;  // From the phrase's PhraseInfo
+  fuzzy?: boolean;  // A near-miss of the phrase rather than an exact hit
+  depth?: number;  // With the 'nested' strategy: how many matches this one sits inside
+}
+
+export interface FindMatchesOptions {
+  overlapStrategy?: OverlapStrategy;  // Defaults to 'priority-wins'
+}
+
+// What a match carries over from its phrase's PhraseInfo
+interface MatchStyle extends PhraseColors {
+  priority: number;
+  highlightStyle?: HighlightStyle;
 }
 
-// Check if a character is a word character (alphanumeric or underscore)
+function matchStyle(info: PhraseInfo): MatchStyle {
+  return {
+    bgColor: info.bgColor,
+    textColor: info.textColor,
+    priority: info.priority ?? 0,
+    ...(info.highlightStyle ? { highlightStyle: info.highlightStyle } : {}),
+  };
+}
+
+// Word characters (any script's letters, digits and combining marks, plus underscore),
+// shared by boundary checks and wildcards. Needs the 'u' regex flag.
+const WORD_CHAR_CLASS = '\\p{L}\\p{N}\\p{M}_';
+const WORD_CHAR = new RegExp(`[${WORD_CHAR_CLASS}]`, 'u');
+
+// Scripts written without spaces between words - boundaries there come from Intl.Segmenter
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Check if a character is a word character
 function isWordChar(char: string): boolean {
-  return /\w/.test(char);
+  return WORD_CHAR.test(char);
+}
+
+// Full code point starting at index (handles surrogate pairs such as emoji)
+function codePointAt(text: string, index: number): string {
+  const code = text.codePointAt(index);
+  return code === undefined ? '' : String.fromCodePoint(code);
+}
+
+// Full code point ending just before index
+function codePointBefore(text: string, index: number): string {
+  if (index <= 0) return '';
+  const low = text.charCodeAt(index - 1);
+  if (index >= 2 && low >= 0xdc00 && low <= 0xdfff) {
+    return text.slice(index - 2, index);
+  }
+  return text[index - 1];
+}
+
+// How the edge of a phrase must line up with the surrounding text:
+// - 'none': the phrase edge is punctuation/space, so anything may touch it
+// - 'word': the neighbouring character must not be a word character
+// - 'segment': the edge must fall between words as found by Intl.Segmenter
+type BoundaryKind = 'none' | 'word' | 'segment';
+
+function boundaryKind(char: string): BoundaryKind {
+  if (!isWordChar(char)) return 'none';
+  return UNSPACED_SCRIPT.test(char) ? 'segment' : 'word';
+}
+
+interface SegmenterLike {
+  segment(text: string): Iterable<{ index: number; segment: string }>;
+}
+
+type SegmenterConstructor = new (locale: undefined, options: { granularity: 'word' }) => SegmenterLike;
+
+// Intl.Segmenter isn't in our TypeScript lib target and is missing from older browsers
+const WordSegmenter = (Intl as typeof Intl & { Segmenter?: SegmenterConstructor }).Segmenter;
+
+let wordSegmenter: SegmenterLike | null = null;
+
+// Characters that attach to the one before them: combining marks, zero-width joiners,
+// variation selectors, emoji skin tones and emoji tag characters
+const GRAPHEME_EXTENDER = /[\p{M}\u200d\ufe00-\ufe0f\u{1f3fb}-\u{1f3ff}\u{e0020}-\u{e007f}]/u;
+
+// Word boundary checks for one text - the text is only segmented if a phrase needs it
+// Without wholeWords only the grapheme checks apply, so phrases can match inside words
+class WordBoundaries {
+  private segmentEdges: Set<number> | null = null;
+
+  constructor(private text: string, private wholeWords: boolean = true) {}
+
+  check(start: number, end: number, startKind: BoundaryKind, endKind: BoundaryKind): boolean {
+    return this.isGraphemeEdge(start) && this.isGraphemeEdge(end) &&
+      this.isEdge(start, startKind, this.visibleBefore(start)) &&
+      this.isEdge(end, endKind, this.visibleAt(end));
+  }
+
+  // Neighbouring characters, looking past soft hyphens and word joiners, which sit
+  // inside words ("net" must not match in "inter\u00adnet"). Zero-width spaces do separate words
+  private visibleBefore(index: number): string {
+    while (index > 0 && JOINING_INVISIBLE.test(this.text[index - 1])) index--;
+    return codePointBefore(this.text, index);
+  }
+
+  private visibleAt(index: number): string {
+    while (index < this.text.length && JOINING_INVISIBLE.test(this.text[index])) index++;
+    return codePointAt(this.text, index);
+  }
+
+  // Never split a user-perceived character: "👍" must not match inside "👍🏽"
+  private isGraphemeEdge(index: number): boolean {
+    if (index <= 0 || index >= this.text.length) return true;
+    if (codePointBefore(this.text, index + 1).length === 2) return false;  // Inside a surrogate pair
+    return !GRAPHEME_EXTENDER.test(codePointAt(this.text, index)) && this.text[index - 1] !== '\u200d';
+  }
+
+  private isEdge(index: number, kind: BoundaryKind, neighbour: string): boolean {
+    if (kind === 'none' || !this.wholeWords || index === 0 || index === this.text.length) return true;
+
+    if (kind === 'word') {
+      // Words in spaced scripts often sit right next to unspaced text ("API接口")
+      return !isWordChar(neighbour) || UNSPACED_SCRIPT.test(neighbour);
+    }
+
+    // Without a segmenter we can't find word edges, so allow substring matches
+    if (!WordSegmenter) return true;
+    if (!this.segmentEdges) {
+      wordSegmenter ??= new WordSegmenter(undefined, { granularity: 'word' });
+      this.segmentEdges = new Set();
+      for (const { index: segmentStart, segment } of wordSegmenter.segment(this.text)) {
+        this.segmentEdges.add(segmentStart);
+        this.segmentEdges.add(segmentStart + segment.length);
+      }
+    }
+    return this.segmentEdges.has(index);
+  }
 }
 
-// Check if match is at a word boundary
-function isWordBoundary(text: string, start: number, end: number, phrase: string): boolean {
-  const charBefore = start > 0 ? text[start - 1] : '';
-  const charAfter = end < text.length ? text[end] : '';
+// Boundary requirements at each end of a literal phrase
+function phraseBoundaries(phrase: string): { start: BoundaryKind; end: BoundaryKind } {
+  return {
+    start: boundaryKind(codePointAt(phrase, 0)),
+    end: boundaryKind(codePointBefore(phrase, phrase.length))
+  };
+}
 
-  // Only check start boundary if phrase starts with a word character
-  const phraseStartsWithWord = isWordChar(phrase[0]);
-  const beforeOk = !phraseStartsWithWord || start === 0 || !isWordChar(charBefore);
+// A transformed copy of some text whose positions map back to the original.
+// Each code unit of view.text records the original range it came from.
+interface TextView {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+// Build a view by transforming the text one code point at a time
+function buildTextView(text: string, transform: (char: string) => string): TextView {
+  const view: TextView = { text: '', starts: [], ends: [] };
+  const parts: string[] = [];
+
+  for (let i = 0; i < text.length; ) {
+    const char = codePointAt(text, i);
+    const transformed = transform(char);
+
+    // Dropped characters (e.g. combining accents) belong to the preceding character,
+    // and so do spaces that follow a space, collapsing runs of whitespace to one
+    if (transformed === '' || (transformed === ' ' && parts[parts.length - 1] === ' ')) {
+      if (view.ends.length > 0) view.ends[view.ends.length - 1] = i + char.length;
+    } else {
+      parts.push(transformed);
+      for (let k = 0; k < transformed.length; k++) {
+        view.starts.push(i);
+        view.ends.push(i + char.length);
+      }
+    }
 
-  // Only check end boundary if phrase ends with a word character
-  const phraseEndsWithWord = isWordChar(phrase[phrase.length - 1]);
-  const afterOk = !phraseEndsWithWord || end === text.length || !isWordChar(charAfter);
+    i += char.length;
+  }
+
+  view.text = parts.join('');
+  return view;
+}
+
+// Map a [start, end) range in a view back to the original text.
+// Returns null if the range covers only part of what one original character became.
+function toOriginalRange(view: TextView, start: number, end: number): { start: number; end: number } | null {
+  if (start > 0 && view.starts[start] === view.starts[start - 1]) return null;
+  if (end < view.text.length && view.ends[end] === view.ends[end - 1]) return null;
+  return { start: view.starts[start], end: view.ends[end - 1] };
+}
+
+// Apply a per-character transform to a whole phrase, the same way buildTextView does to text
+function transformText(text: string, transform: (char: string) => string): string {
+  return buildTextView(text, transform).text;
+}
+
+type CharTransform = (char: string) => string;
+
+// Typographic variants that should match their plain equivalents. Pages use non-breaking
+// spaces, soft hyphens, curly quotes and assorted dashes where phrases are typed plainly
+const SPACE = /^\s$/u;  // Includes non-breaking and other Unicode spaces
+const INVISIBLE = /^[\u00ad\u200b\u2060\ufeff]$/;  // Soft hyphen, zero-width space, word joiners
+const JOINING_INVISIBLE = /^[\u00ad\u2060\ufeff]$/;
+const DASH = /^[\p{Pd}\u2212]$/u;  // Hyphens, en and em dashes, minus sign...
+const SINGLE_QUOTE = /^[\u2018\u2019\u201a\u201b\u2032]$/;
+const DOUBLE_QUOTE = /^[\u201c\u201d\u201e\u201f\u2033]$/;
+
+function normalizeChar(char: string): string {
+  if (char.length !== 1) return char;  // All the variants are in the Basic Multilingual Plane
+  if (INVISIBLE.test(char)) return '';
+  if (SPACE.test(char)) return ' ';
+  if (DASH.test(char)) return '-';
+  if (SINGLE_QUOTE.test(char)) return "'";
+  if (DOUBLE_QUOTE.test(char)) return '"';
+  return char;
+}
+
+const COMBINING_MARK = /\p{M}/gu;
+
+// Strip accents and other diacritics: "Zürich" -> "Zurich"
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(COMBINING_MARK, '');
+}
+
+// Lowercase one character at a time, so every folded position maps back to the original
+// ("İ" becomes two code units when lowercased)
+function foldCase(char: string): string {
+  return normalizeChar(char).toLowerCase();
+}
+
+function foldAccents(char: string): string {
+  return stripAccents(normalizeChar(char));
+}
+
+function foldAccentsAndCase(char: string): string {
+  return stripAccents(foldCase(char));
+}
+
+// The text being searched, with views of it built on first use and shared by all phrases
+class SearchText {
+  readonly boundaries: WordBoundaries;
+  private views = new Map<CharTransform, TextView>();
+  private wordList: TextWord[] | null = null;
+
+  constructor(readonly text: string, wholeWords: boolean = true) {
+    this.boundaries = new WordBoundaries(text, wholeWords);
+  }
+
+  // The text with every character passed through transform (always one of the fold functions)
+  view(transform: CharTransform): TextView {
+    let view = this.views.get(transform);
+    if (!view) {
+      view = buildTextView(this.text, transform);
+      this.views.set(transform, view);
+    }
+    return view;
+  }
+
+  // Every word in the normalized text, with stems computed as phrases ask for them
+  words(): TextWord[] {
+    if (!this.wordList) {
+      const view = this.view(normalizeChar);
+      this.wordList = [];
+      for (const result of view.text.matchAll(WORD_RUN)) {
+        const viewStart = result.index!;
+        const viewEnd = viewStart + result[0].length;
+        const { start, end } = toOriginalRange(view, viewStart, viewEnd)!;
+        this.wordList.push({ start, end, viewStart, viewEnd, text: result[0] });
+      }
+    }
+    return this.wordList;
+  }
+
+  // Normalized text between two words
+  between(before: TextWord, after: TextWord): string {
+    return this.view(normalizeChar).text.substring(before.viewEnd, after.viewStart);
+  }
+}
+
+const WORD_RUN = new RegExp(`[${WORD_CHAR_CLASS}]+`, 'gu');
+
+interface TextWord {
+  start: number;      // Offsets in the original text
+  end: number;
+  viewStart: number;  // Offsets in the normalized text
+  viewEnd: number;
+  text: string;       // Normalized word
+  stem?: string;
+  accentFoldedStem?: string;
+  folded?: Map<CharTransform, string>;  // Folded like fuzzy phrases, by fold
+}
+
+// Wildcard phrases: "deploy*" (any word ending) and "re?iew" (any single letter)
+// - '*' is a wildcard when it touches a word character: "deploy*", "*script"
+// - '?' is a wildcard only inside a word, so "Why?" still matches a question mark
+// - "\*" and "\?" always match the literal characters
+type GlobToken = { wildcard: '*' | '?' } | { literal: string };
+
+function tokenizeGlob(phrase: string): GlobToken[] {
+  const tokens: GlobToken[] = [];
+
+  for (let i = 0; i < phrase.length; ) {
+    const char = codePointAt(phrase, i);
+    const before = codePointBefore(phrase, i);
+    const after = codePointAt(phrase, i + char.length);
+
+    if (char === '\\' && (after === '*' || after === '?')) {
+      tokens.push({ literal: after });
+      i += 2;
+      continue;
+    }
+
+    if (char === '*' && (isWordChar(before) || isWordChar(after))) {
+      // Collapse runs like "**" into one wildcard
+      const last = tokens[tokens.length - 1];
+      if (!last || !('wildcard' in last) || last.wildcard !== '*') {
+        tokens.push({ wildcard: '*' });
+      }
+    } else if (char === '?' && isWordChar(before) && isWordChar(after)) {
+      tokens.push({ wildcard: '?' });
+    } else {
+      tokens.push({ literal: char });
+    }
+    i += char.length;
+  }
+
+  return tokens;
+}
+
+export function isGlobPhrase(phrase: string): boolean {
+  // Escaped characters also need the glob compiler to unescape them
+  return /\\[*?]/.test(phrase) ||
+    tokenizeGlob(phrase).some(token => 'wildcard' in token);
+}
+
+// Regular-expression phrases are written like JavaScript literals: /pattern/flags. Only
+// phrases with PhraseInfo.regex are read that way, so saved phrases like "/r/" stay literal
+const REGEX_PHRASE = /^\/(.+)\/([a-z]*)$/s;
+const ALLOWED_REGEX_FLAGS = 'imsu';
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_MATCHES_PER_TEXT = 500;
+const MAX_REGEX_SLICE_LENGTH = 2000;  // Text searched at once, bounding the time one search can take
+const MIN_LONG_REPEAT = 20;  // {n,m} repeats with this much room backtrack like unbounded ones
+
+export function isRegexPhrase(phrase: string): boolean {
+  return REGEX_PHRASE.test(phrase);
+}
 
-  return beforeOk && afterOk;
+function readsAsRegex(phrase: string, info: PhraseInfo): boolean {
+  return info.regex === true && isRegexPhrase(phrase);
 }
 
-// Check if a phrase is all uppercase
+// Find repeated groups that can backtrack exponentially, e.g. (a+)+ or (a|aa)*.
+// This is a conservative static check - JavaScript regexes can't be given a timeout.
+function hasNestedRepetition(source: string): boolean {
+  // Each open group tracks whether it contains an unbounded quantifier or alternation
+  const stack: { risky: boolean }[] = [];
+  let inClass = false;
+
+  const isUnboundedQuantifier = (index: number): boolean => {
+    const char = source[index];
+    if (char === '*' || char === '+') return true;
+    if (char === '{') return /^\{\d*,\}/.test(source.slice(index));
+    return false;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      i++; // Skip escaped character
+      continue;
+    }
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      stack.push({ risky: false });
+    } else if (char === ')') {
+      const group = stack.pop();
+      if (!group) continue;
+      if (group.risky && isUnboundedQuantifier(i + 1)) return true;
+      // A risky group makes its parent risky too
+      if (group.risky && stack.length > 0) stack[stack.length - 1].risky = true;
+    } else if (char === '|' || isUnboundedQuantifier(i)) {
+      if (stack.length > 0) stack[stack.length - 1].risky = true;
+    }
+  }
+
+  return false;
+}
+
+// Characters tried against parts of a pattern to tell whether they can match the same text
+const PROBE_CHARS = [
+  ...Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)),  // Printable ASCII
+  '\t', '\n', '\u00a0', 'é', 'É', 'ж', '中', '٣', '\u2019',
+];
+
+// One part of a sequence in a pattern: a character, class, escape or group, with its quantifier
+interface PatternPart {
+  chars: Set<string>;  // The probe characters it can match
+  optional: boolean;  // Can match nothing
+  unbounded: boolean;  // Repeats without (much of) a limit, itself or inside
+}
+
+// Whether two unbounded parts of a sequence can trade characters, with nothing in between
+// that only one of them can match ("\w*\w*x", "\w+\s*\w+x", ".*a.*x"). Every way of
+// splitting text between them is then tried before giving up, which takes polynomial time
+function hasOverlappingRepeats(sequence: PatternPart[]): boolean {
+  const shares = (a: Set<string>, b: Set<string>) => Array.from(a).some(char => b.has(char));
+
+  for (let i = 0; i < sequence.length; i++) {
+    const first = sequence[i];
+    if (!first.unbounded) continue;
+
+    const between: PatternPart[] = [];
+    for (let j = i + 1; j < sequence.length; j++) {
+      const part = sequence[j];
+      if (part.unbounded && shares(first.chars, part.chars) &&
+          between.every(other => other.optional || Array.from(other.chars).some(char => first.chars.has(char) && part.chars.has(char)))) {
+        return true;
+      }
+      if (!part.optional && !shares(part.chars, first.chars)) break;
+      between.push(part);
+    }
+  }
+  return false;
+}
+
+// Reads a pattern's sequences (the alternatives of each group) to check them for
+// overlapping repeats. The pattern is known to compile
+class PatternScanner {
+  private index = 0;
+  risky = false;
+
+  constructor(private source: string, private flags: string) {}
+
+  scan(): boolean {
+    this.alternatives();
+    return this.risky;
+  }
+
+  // Alternatives up to the end of the current group; returns what they can match together
+  private alternatives(): Omit<PatternPart, 'optional'> {
+    const chars = new Set<string>();
+    let unbounded = false;
+    let sequence: PatternPart[] = [];
+    const finishSequence = () => {
+      if (hasOverlappingRepeats(sequence)) this.risky = true;
+      for (const part of sequence) {
+        part.chars.forEach(char => chars.add(char));
+        unbounded ||= part.unbounded;
+      }
+      sequence = [];
+    };
+
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (char === ')') {
+        this.index++;
+        break;
+      }
+      if (char === '|') {
+        this.index++;
+        finishSequence();
+        continue;
+      }
+      const part = this.atom();
+      this.quantifier(part);
+      if (part) sequence.push(part);
+    }
+    finishSequence();
+    return { chars, unbounded };
+  }
+
+  // The next atom, or null for ones that match no characters (anchors, lookarounds)
+  private atom(): PatternPart | null {
+    const { source } = this;
+    const start = this.index;
+    const char = source[this.index++];
+
+    if (char === '^' || char === '$') return null;
+    if (char === '(') {
+      const prefix = source.slice(this.index).match(/^\?(?::|<?[=!]|<[^>]+>)/)?.[0] ?? '';
+      this.index += prefix.length;
+      const inner = this.alternatives();
+      if (/[=!]/.test(prefix)) return null;
+      return { ...inner, optional: false };
+    }
+    if (char === '[') {
+      for (; this.index < source.length && source[this.index] !== ']'; this.index++) {
+        if (source[this.index] === '\\') this.index++;
+      }
+      this.index++;
+    } else if (char === '\\') {
+      const escape = source.slice(this.index).match(/^(?:[bB]|[1-9]\d*|k<[^>]+>|[pP]\{[^}]*\}|u\{[^}]*\}|u[\da-fA-F]{4}|x[\da-fA-F]{2}|c[a-zA-Z]|[\s\S])/)![0];
+      this.index += escape.length;
+      if (escape === 'b' || escape === 'B') return null;
+      // A backreference can repeat anything its group matched
+      if (/^(?:[1-9]|k<)/.test(escape)) return { chars: new Set(PROBE_CHARS), optional: false, unbounded: false };
+    } else if (char >= '\ud800' && char <= '\udbff' && this.index < source.length) {
+      this.index++;  // The rest of a surrogate pair
+    }
+    return { chars: this.probe(source.slice(start, this.index)), optional: false, unbounded: false };
+  }
+
+  private quantifier(part: PatternPart | null): void {
+    const quantifier = this.source.slice(this.index).match(/^(?:[*+?]|\{(\d+)(?:(,)(\d*))?\})\??/);
+    if (!quantifier) return;
+    this.index += quantifier[0].length;
+    if (!part) return;
+
+    const [text, min, comma, max] = quantifier;
+    if (text[0] === '*' || text[0] === '?' || min === '0') part.optional = true;
+    if (text[0] === '*' || text[0] === '+' ||
+        (comma && (max === '' || Number(max) - Number(min) >= MIN_LONG_REPEAT))) {
+      part.unbounded = true;
+    }
+  }
+
+  private probe(atom: string): Set<string> {
+    try {
+      const regex = new RegExp(`^(?:${atom})$`, this.flags);
+      return new Set(PROBE_CHARS.filter(char => regex.test(char)));
+    } catch {
+      return new Set(PROBE_CHARS);
+    }
+  }
+}
+
+/**
+ * Validate a regular-expression phrase
+ * @returns An error message, or null if the phrase is usable (non-regex phrases are always valid)
+ */
+export function validateRegexPhrase(phrase: string): string | null {
+  const parts = phrase.match(REGEX_PHRASE);
+  if (!parts) return null;
+
+  const [, source, flags] = parts;
+
+  if (source.length > MAX_REGEX_LENGTH) {
+    return `Pattern is too long (max ${MAX_REGEX_LENGTH} characters)`;
+  }
+
+  for (const flag of flags) {
+    if (!ALLOWED_REGEX_FLAGS.includes(flag)) {
+      return `Unsupported flag "${flag}" (allowed: ${ALLOWED_REGEX_FLAGS.split('').join(', ')})`;
+    }
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, flags);
+  } catch (e) {
+    return `Invalid pattern: ${(e as Error).message}`;
+  }
+
+  if (hasNestedRepetition(source)) {
+    return 'Repeated groups containing quantifiers or alternatives (like (a+)+) can freeze pages';
+  }
+
+  if (new PatternScanner(source, flags).scan()) {
+    return 'Repeats next to each other that can match the same text (like \\w*\\w*) can freeze pages';
+  }
+
+  if (regex.test('')) {
+    return 'Pattern matches empty text';
+  }
+
+  return null;
+}
+
+// Check if a phrase is all uppercase (ignoring letters from scripts without case)
 function isAllUppercase(phrase: string): boolean {
-  const letters = phrase.match(/[a-zA-Z]/g);
-  if (!letters || letters.length === 0) return false;
+  const letters = (phrase.match(/\p{L}/gu) || []).filter(char => char.toLowerCase() !== char.toUpperCase());
+  if (letters.length === 0) return false;
   return letters.every(char => char === char.toUpperCase());
 }
 
+// Resolve a phrase's case mode: 'auto' makes only all-uppercase phrases case-sensitive
+function isCaseSensitive(phrase: string, caseMode: CaseMode = 'auto'): boolean {
+  if (caseMode === 'auto') return isAllUppercase(phrase);
+  return caseMode === 'sensitive';
+}
+
 // Aho-Corasick Trie Node
 interface TrieNode {
   children: Map<string, TrieNode>;
@@ -54,9 +630,23 @@ interface TrieNode {
 
 interface PhraseOutput {
   phrase: string;         // Original phrase
-  lowerPhrase: string;    // Lowercase version for matching
-  caseSensitive: boolean; // True for all-uppercase phrases
-  colors: PhraseColors;
+  lowerPhrase: string;    // Lowercase (and maybe accent-folded) version for matching
+  caseMode: CaseMode;     // As configured for the phrase or its group
+  caseSensitive: boolean; // Resolved from caseMode
+  exactPhrase: string;    // Normalized (and maybe accent-folded) version for case-sensitive checks
+  boundaries: { start: BoundaryKind; end: BoundaryKind };
+  style: MatchStyle;
+}
+
+// An automaton flattened to plain data, so one context (the background script) can build
+// it and send it to others as a message. Styles aren't included - they come from the
+// phrase map it's loaded for
+export interface SerializedAutomaton {
+  ignoreAccents: boolean;
+  outputs: Omit<PhraseOutput, 'style'>[];
+  // Breadth-first, root first: each child's character (one code unit), child node
+  // indices, failure link (-1 for the root) and outputs (indices, fail outputs merged in)
+  nodes: [chars: string, children: number[], fail: number, outputs: number[]][];
 }
 
 function createNode(depth: number = 0): TrieNode {
@@ -69,31 +659,59 @@ function createNode(depth: number = 0): TrieNode {
 }
 
 // Build Aho-Corasick automaton from phrase map
+// With ignoreAccents, the trie holds accent-folded phrases and searches the folded view
 class AhoCorasick {
   private root: TrieNode;
   private built: boolean = false;
+  private phraseCount = 0;
 
-  constructor() {
+  constructor(private ignoreAccents: boolean = false) {
     this.root = createNode();
   }
 
   // Add a phrase to the trie
-  addPhrase(phrase: string, colors: PhraseColors): void {
-    const lowerPhrase = phrase.toLowerCase();
-    const caseSensitive = isAllUppercase(phrase);
+  addPhrase(phrase: string, info: PhraseInfo): void {
+    const lowerPhrase = transformText(phrase, this.ignoreAccents ? foldAccentsAndCase : foldCase);
+    const exactPhrase = transformText(phrase, this.exactFold());
+    const caseMode = info.caseMode || 'auto';
+    const caseSensitive = isCaseSensitive(phrase, caseMode);
+    const style = matchStyle(info);
 
+    // Walk code units, as search does, so phrases with emoji and other astral characters match
     let node = this.root;
-    for (const char of lowerPhrase) {
+    for (let i = 0; i < lowerPhrase.length; i++) {
+      const char = lowerPhrase[i];
       if (!node.children.has(char)) {
         node.children.set(char, createNode(node.depth + 1));
       }
       node = node.children.get(char)!;
     }
 
-    node.output.push({ phrase, lowerPhrase, caseSensitive, colors });
+    node.output.push({
+      phrase,
+      lowerPhrase,
+      caseMode,
+      caseSensitive,
+      exactPhrase,
+      boundaries: phraseBoundaries(phrase),
+      style
+    });
+    this.phraseCount++;
     this.built = false;
   }
 
+  isEmpty(): boolean {
+    return this.root.children.size === 0;
+  }
+
+  get size(): number {
+    return this.phraseCount;
+  }
+
+  private exactFold(): CharTransform {
+    return this.ignoreAccents ? foldAccents : normalizeChar;
+  }
+
   // Build failure links using BFS
   build(): void {
     if (this.built) return;
@@ -130,11 +748,80 @@ class AhoCorasick {
     this.built = true;
   }
 
+  serialize(): SerializedAutomaton {
+    this.build();
+
+    const nodes: TrieNode[] = [this.root];
+    const nodeIndex = new Map<TrieNode, number>([[this.root, 0]]);
+    for (let i = 0; i < nodes.length; i++) {
+      for (const child of nodes[i].children.values()) {
+        nodeIndex.set(child, nodes.length);
+        nodes.push(child);
+      }
+    }
+
+    // Merged outputs share their objects with the nodes the phrases end at
+    const outputs: SerializedAutomaton['outputs'] = [];
+    const outputIndex = new Map<PhraseOutput, number>();
+    const indexOf = (output: PhraseOutput): number => {
+      let index = outputIndex.get(output);
+      if (index === undefined) {
+        const { style, ...data } = output;
+        index = outputs.push(data) - 1;
+        outputIndex.set(output, index);
+      }
+      return index;
+    };
+
+    return {
+      ignoreAccents: this.ignoreAccents,
+      outputs,
+      nodes: nodes.map(node => [
+        [...node.children.keys()].join(''),
+        [...node.children.values()].map(child => nodeIndex.get(child)!),
+        node.fail ? nodeIndex.get(node.fail)! : -1,
+        node.output.map(indexOf),
+      ]),
+    };
+  }
+
+  // Rebuild a serialized automaton for phraseMap. Phrases it doesn't have, or has with
+  // other settings, are left out; size tells how many were kept
+  static deserialize(data: SerializedAutomaton, phraseMap: PhraseMap): AhoCorasick {
+    const automaton = new AhoCorasick(data.ignoreAccents);
+    const outputs = data.outputs.map((output): PhraseOutput | null => {
+      const info = phraseMap.get(output.phrase);
+      if (!info || !!info.ignoreAccents !== data.ignoreAccents || (info.caseMode || 'auto') !== output.caseMode) {
+        return null;
+      }
+      automaton.phraseCount++;
+      return { ...output, style: matchStyle(info) };
+    });
+
+    const nodes = data.nodes.map(() => createNode());
+    data.nodes.forEach(([chars, children, fail, outputIndices], i) => {
+      const node = nodes[i];
+      children.forEach((childIndex, j) => {
+        nodes[childIndex].depth = node.depth + 1;
+        node.children.set(chars[j], nodes[childIndex]);
+      });
+      node.fail = fail >= 0 ? nodes[fail] : null;
+      node.output = outputIndices.map(index => outputs[index]).filter(output => output !== null);
+    });
+
+    automaton.root = nodes[0];
+    automaton.built = true;
+    return automaton;
+  }
+
   // Search for all matches in text - O(n) where n is text length
-  search(text: string): Match[] {
+  // Returns every candidate match, including overlapping ones
+  search(searchText: SearchText): Match[] {
     this.build();
 
-    const lowerText = text.toLowerCase();
+    const { text, boundaries } = searchText;
+    const view = searchText.view(this.ignoreAccents ? foldAccentsAndCase : foldCase);
+    const lowerText = view.text;
     const matches: Match[] = [];
     let node = this.root;
 
@@ -152,18 +839,19 @@ class AhoCorasick {
 
       // Check for matches at this position
       for (const output of node.output) {
-        const start = i - output.lowerPhrase.length + 1;
-        const end = i + 1;
+        const range = toOriginalRange(view, i - output.lowerPhrase.length + 1, i + 1);
+        if (!range) continue;
+        const { start, end } = range;
 
         // Check word boundaries
-        if (!isWordBoundary(text, start, end, output.phrase)) {
+        if (!boundaries.check(start, end, output.boundaries.start, output.boundaries.end)) {
           continue;
         }
 
         // For case-sensitive phrases, verify exact match
         if (output.caseSensitive) {
           const actualText = text.substring(start, end);
-          if (actualText !== output.phrase) {
+          if (transformText(actualText, this.exactFold()) !== output.exactPhrase) {
             continue;
           }
         }
@@ -172,54 +860,835 @@ class AhoCorasick {
           start,
           end,
           phrase: output.phrase,
-          bgColor: output.colors.bgColor,
-          textColor: output.colors.textColor
+          ...output.style
         });
       }
     }
 
-    // Sort by position, then by length (longest first for overlaps)
-    matches.sort((a, b) => {
-      if (a.start !== b.start) return a.start - b.start;
-      return b.end - a.end; // Longer matches first
-    });
+    return matches;
+  }
+}
+
+// A compiled regular-expression or wildcard phrase
+interface RegexPhrase {
+  phrase: string;
+  regex: RegExp;
+  style: MatchStyle;
+  // Wildcard phrases follow the same word-boundary rules as literal phrases
+  boundaries?: { start: BoundaryKind; end: BoundaryKind };
+  // Globs run against a normalized view of the text; regex phrases see the original
+  fold?: CharTransform;
+  // Built-in patterns can reject what their regex matched
+  accept?: (text: string) => boolean;
+}
+
+// Regex phrases ignore caseMode - their own flags decide (add 'i' to ignore case)
+function compileRegexPhrase(phrase: string, info: PhraseInfo): RegexPhrase | null {
+  if (validateRegexPhrase(phrase) !== null) return null;
 
-    // Remove overlapping matches (keep longest/first)
-    const filtered: Match[] = [];
-    let lastEnd = 0;
+  const [, source, flags] = phrase.match(REGEX_PHRASE)!;
+  return {
+    phrase,
+    regex: new RegExp(source, flags + 'g'),
+    style: matchStyle(info)
+  };
+}
+
+// Built-in patterns match whole words and bring their own case rules
+function compilePatternPhrase(phrase: string, pattern: PatternType, info: PhraseInfo): RegexPhrase {
+  const { regex, accept } = patternRecognizer(pattern);
+  return {
+    phrase,
+    regex: new RegExp(regex),
+    style: matchStyle(info),
+    boundaries: { start: 'word', end: 'word' },
+    accept
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Merge neighbouring literals and fold them the way the searched text will be folded
+function foldGlobTokens(tokens: GlobToken[], fold: CharTransform): GlobToken[] {
+  const folded: GlobToken[] = [];
+  let literal = '';
+  const flushLiteral = () => {
+    const foldedLiteral = transformText(literal, fold);
+    if (foldedLiteral) folded.push({ literal: foldedLiteral });
+    literal = '';
+  };
+
+  for (const token of tokens) {
+    if ('literal' in token) {
+      literal += token.literal;
+    } else {
+      flushLiteral();
+      folded.push(token);
+    }
+  }
+  flushLiteral();
+  return folded;
+}
+
+function compileGlobPhrase(phrase: string, info: PhraseInfo): RegexPhrase {
+  // Case is left to the regex flags, so only normalize (and maybe strip accents)
+  const fold = info.ignoreAccents ? foldAccents : normalizeChar;
+  const tokens = foldGlobTokens(tokenizeGlob(phrase), fold);
+
+  const source = tokens.map(token => {
+    if ('literal' in token) return escapeRegExp(token.literal);
+    return token.wildcard === '*' ? `[${WORD_CHAR_CLASS}]*` : `[${WORD_CHAR_CLASS}]`;
+  }).join('');
+
+  // Wildcards stand in for word characters when deciding which ends need a boundary
+  const tokenBoundary = (token: GlobToken, atEnd: boolean): BoundaryKind => {
+    if ('wildcard' in token) return 'word';
+    return boundaryKind(atEnd ? codePointBefore(token.literal, token.literal.length) : codePointAt(token.literal, 0));
+  };
+  const literalText = tokens.map(token => 'literal' in token ? token.literal : '').join('');
+  const flags = isCaseSensitive(literalText, info.caseMode) ? 'gu' : 'giu';
+
+  return {
+    phrase,
+    regex: new RegExp(source, flags),
+    style: matchStyle(info),
+    boundaries: {
+      start: tokenBoundary(tokens[0], false),
+      end: tokenBoundary(tokens[tokens.length - 1], true)
+    },
+    fold
+  };
+}
+
+// Where a slice of text for regex phrases that starts at start ends: after the last
+// whitespace in its second half, so matches are rarely cut, or at the limit
+function regexSliceEnd(text: string, start: number): number {
+  const limit = start + MAX_REGEX_SLICE_LENGTH;
+  if (limit >= text.length) return text.length;
+  for (let i = limit; i > start + MAX_REGEX_SLICE_LENGTH / 2; i--) {
+    if (SPACE.test(text[i - 1])) return i;
+  }
+  return limit;
+}
+
+// Long texts are searched a slice at a time: even patterns that pass validation can take
+// time quadratic in the length of the text they run on
+function searchRegexPhrase(searchText: SearchText, regexPhrase: RegexPhrase): Match[] {
+  const { regex, phrase, style, boundaries, accept } = regexPhrase;
+  const view = regexPhrase.fold ? searchText.view(regexPhrase.fold) : null;
+  const text = view ? view.text : searchText.text;
+  const matches: Match[] = [];
+
+  for (let sliceStart = 0; sliceStart < text.length; ) {
+    const sliceEnd = regexSliceEnd(text, sliceStart);
+    const slice = sliceStart === 0 && sliceEnd === text.length ? text : text.slice(sliceStart, sliceEnd);
+
+    regex.lastIndex = 0;
+    let result: RegExpExecArray | null;
+    while ((result = regex.exec(slice)) !== null) {
+      if (result[0].length === 0) {
+        // Validation rejects patterns that match empty text, but lookarounds can still
+        // produce empty matches mid-text - step past them to avoid looping forever
+        regex.lastIndex++;
+        continue;
+      }
+
+      const matchStart = sliceStart + result.index;
+      const matchEnd = matchStart + result[0].length;
+      const range = view ? toOriginalRange(view, matchStart, matchEnd) : { start: matchStart, end: matchEnd };
+      if (!range) continue;
+      const { start, end } = range;
+
+      if (boundaries && !searchText.boundaries.check(start, end, boundaries.start, boundaries.end)) {
+        continue;
+      }
+      if (accept && !accept(result[0])) continue;
+
+      matches.push({
+        start,
+        end,
+        phrase,
+        ...style
+      });
+
+      if (matches.length >= MAX_REGEX_MATCHES_PER_TEXT) return matches;
+    }
+
+    sliceStart = sliceEnd;
+  }
+
+  return matches;
+}
+
+// Word-form phrases: each word of the phrase matches any word with the same stem,
+// so "code review" also matches "code reviews" and "reviewed code" does not
+interface WordFormPhrase {
+  phrase: string;
+  words: string[];
+  stems: string[];
+  separators: string[];  // Normalized text between the words
+  caseSensitive: boolean;
+  ignoreAccents: boolean;
+  style: MatchStyle;
+}
+
+function stemWord(word: string, ignoreAccents: boolean): string {
+  const lowerWord = transformText(word, ignoreAccents ? foldAccentsAndCase : foldCase);
+  return stem(lowerWord);
+}
+
+// Split a phrase into words and the separators between them.
+// Returns null for phrases that don't start and end with a word, like "C++"
+function splitPhraseWords(phrase: string): { words: string[]; separators: string[] } | null {
+  phrase = transformText(phrase, normalizeChar);
+  const words = Array.from(phrase.matchAll(WORD_RUN));
+  if (words.length === 0) return null;
+
+  const last = words[words.length - 1];
+  if (words[0].index !== 0 || last.index! + last[0].length !== phrase.length) return null;
+
+  const separators: string[] = [];
+  for (let i = 1; i < words.length; i++) {
+    const previousEnd = words[i - 1].index! + words[i - 1][0].length;
+    separators.push(phrase.substring(previousEnd, words[i].index));
+  }
+
+  return { words: words.map(word => word[0]), separators };
+}
+
+// Whether the text between words[first + k - 1] and words[first + k] matches the phrase's separator
+function separatorMatches(searchText: SearchText, first: number, k: number, separators: string[]): boolean {
+  const words = searchText.words();
+  return searchText.between(words[first + k - 1], words[first + k]) === separators[k - 1];
+}
+
+function compileWordFormPhrase(phrase: string, info: PhraseInfo): WordFormPhrase | null {
+  const split = splitPhraseWords(phrase);
+  if (!split) return null;
+
+  const ignoreAccents = info.ignoreAccents === true;
+  return {
+    phrase,
+    words: split.words,
+    stems: split.words.map(word => stemWord(word, ignoreAccents)),
+    separators: split.separators,
+    caseSensitive: isCaseSensitive(phrase, info.caseMode),
+    ignoreAccents,
+    style: matchStyle(info)
+  };
+}
+
+function textWordStem(word: TextWord, ignoreAccents: boolean): string {
+  if (ignoreAccents) {
+    word.accentFoldedStem ??= stemWord(word.text, true);
+    return word.accentFoldedStem;
+  }
+  word.stem ??= stemWord(word.text, false);
+  return word.stem;
+}
+
+// Case-sensitive word forms must match exactly up to where the two words differ
+// ignoring case, so "APIs" matches "API" but "apis" doesn't
+function sameCaseWordForm(textWord: string, phraseWord: string): boolean {
+  let i = 0;
+  while (i < textWord.length && i < phraseWord.length &&
+    textWord[i].toLowerCase() === phraseWord[i].toLowerCase()) {
+    i++;
+  }
+  return textWord.slice(0, i) === phraseWord.slice(0, i);
+}
+
+// Word-form phrases indexed by their first stem, so each text word is looked up once
+class WordFormIndex {
+  private byFirstStem = new Map<string, WordFormPhrase[]>();
+  private hasAccentFolded = false;
+
+  get size(): number {
+    return this.byFirstStem.size;
+  }
+
+  add(wordFormPhrase: WordFormPhrase): void {
+    const key = WordFormIndex.key(wordFormPhrase.stems[0], wordFormPhrase.ignoreAccents);
+    const phrases = this.byFirstStem.get(key);
+    if (phrases) {
+      phrases.push(wordFormPhrase);
+    } else {
+      this.byFirstStem.set(key, [wordFormPhrase]);
+    }
+    this.hasAccentFolded ||= wordFormPhrase.ignoreAccents;
+  }
+
+  search(searchText: SearchText): Match[] {
+    const words = searchText.words();
+    const matches: Match[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      for (const ignoreAccents of this.hasAccentFolded ? [false, true] : [false]) {
+        const candidates = this.byFirstStem.get(WordFormIndex.key(textWordStem(words[i], ignoreAccents), ignoreAccents));
+        for (const wordFormPhrase of candidates || []) {
+          const end = matchWordForms(searchText, i, wordFormPhrase);
+          if (end === null) continue;
+
+          matches.push({
+            start: words[i].start,
+            end,
+            phrase: wordFormPhrase.phrase,
+            ...wordFormPhrase.style
+          });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private static key(firstStem: string, ignoreAccents: boolean): string {
+    return `${ignoreAccents ? 'a' : ''}:${firstStem}`;
+  }
+}
+
+// Match a word-form phrase starting at text word `first`; returns the end offset or null
+function matchWordForms(searchText: SearchText, first: number, wordFormPhrase: WordFormPhrase): number | null {
+  const words = searchText.words();
+  const { stems, separators, ignoreAccents } = wordFormPhrase;
+  if (first + stems.length > words.length) return null;
+
+  for (let k = 0; k < stems.length; k++) {
+    const word = words[first + k];
+    if (textWordStem(word, ignoreAccents) !== stems[k]) return null;
+    if (wordFormPhrase.caseSensitive && !sameCaseWordForm(word.text, wordFormPhrase.words[k])) return null;
+    if (k > 0 && !separatorMatches(searchText, first, k, separators)) return null;
+  }
+
+  return words[first + stems.length - 1].end;
+}
+
+// Fuzzy phrases: near-misses like "kubernets" for "kubernetes", found word by word
+// within a maximum number of single-character edits for the whole phrase
+const MIN_FUZZY_CHARS_PER_EDIT = 4;  // Short words would match too much ("cat" ~ "car")
+const MAX_FUZZY_MATCHES_PER_TEXT = 500;
+
+interface FuzzyPhrase {
+  phrase: string;
+  words: string[];  // Folded the same way as text words are before comparing
+  separators: string[];
+  maxDistance: number;
+  fold: (char: string) => string;
+  pieces: string[];  // Of the first word
+  minSharedPieces: number;  // How many of them a text word must have to be close enough
+  style: MatchStyle;
+}
+
+function compileFuzzyPhrase(phrase: string, info: PhraseInfo, fuzzyDistance: number): FuzzyPhrase | null {
+  const split = splitPhraseWords(phrase);
+  if (!split) return null;
+
+  // Allow one edit per MIN_FUZZY_CHARS_PER_EDIT characters, up to the group's limit
+  const letterCount = split.words.reduce((total, word) => total + word.length, 0);
+  const maxDistance = Math.min(fuzzyDistance, Math.floor(letterCount / MIN_FUZZY_CHARS_PER_EDIT));
+  if (maxDistance < 1) return null;
+
+  const caseSensitive = isCaseSensitive(phrase, info.caseMode);
+  const fold = info.ignoreAccents
+    ? (caseSensitive ? foldAccents : foldAccentsAndCase)
+    : (caseSensitive ? normalizeChar : foldCase);
+
+  const words = split.words.map(word => transformText(word, fold));
+  const pieces = wordPieces(words[0]);
+  return {
+    phrase,
+    words,
+    separators: split.separators,
+    maxDistance,
+    fold,
+    pieces,
+    // Each edit changes at most two of a word's pieces
+    minSharedPieces: pieces.length - 2 * maxDistance,
+    style: matchStyle(info)
+  };
+}
+
+// The distinct two-character pieces of a word
+function wordPieces(word: string): string[] {
+  const pieces = new Set<string>();
+  for (let i = 0; i + 1 < word.length; i++) {
+    pieces.add(word.substring(i, i + 2));
+  }
+  return Array.from(pieces);
+}
+
+// A text word folded like a fuzzy phrase's words, once for all the phrases folded that way
+function foldedTextWord(word: TextWord, fold: CharTransform): string {
+  word.folded ??= new Map();
+  let folded = word.folded.get(fold);
+  if (folded === undefined) {
+    folded = transformText(word.text, fold);
+    word.folded.set(fold, folded);
+  }
+  return folded;
+}
+
+// Rows for boundedEditDistance, shared by every call and grown for longer words
+let previousRow = new Uint32Array(32);
+let currentRow = new Uint32Array(32);
+
+// Levenshtein distance, giving up as soon as it must exceed max (returns max + 1). Only
+// the cells within max of the diagonal can stay within max, so only those are computed
+function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  if (previousRow.length <= b.length) {
+    previousRow = new Uint32Array(2 * (b.length + 1));
+    currentRow = new Uint32Array(2 * (b.length + 1));
+  }
+  let previous = previousRow;
+  let current = currentRow;
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    const from = Math.max(1, i - max);
+    const to = Math.min(b.length, i + max);
+    current[0] = i;
+    if (from > 1) current[from - 1] = max + 1;
+    let rowMin = from === 1 ? i : max + 1;
+    for (let j = from; j <= to; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (to < b.length) current[to + 1] = max + 1;
+    if (rowMin > max) return max + 1;
+    [previous, current] = [current, previous];
+  }
+  return Math.min(previous[b.length], max + 1);
+}
+
+// Fuzzy phrases folded one way, by the length of their first word and then by its pieces.
+// Phrases whose first word is too short or too fuzzy for pieces to rule anything out are
+// only indexed by length
+interface FuzzyLengthIndex {
+  byPiece: Map<string, FuzzyPhrase[]>;
+  unindexed: FuzzyPhrase[];
+}
+
+// Only phrases whose first word is within the edit limit of a text word's length, and
+// that share enough pieces with it, are compared to the text
+class FuzzyIndex {
+  private byFold = new Map<CharTransform, Map<number, FuzzyLengthIndex>>();
+  private count = 0;
+  private maxDistance = 0;
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(fuzzyPhrase: FuzzyPhrase): void {
+    let byLength = this.byFold.get(fuzzyPhrase.fold);
+    if (!byLength) {
+      byLength = new Map();
+      this.byFold.set(fuzzyPhrase.fold, byLength);
+    }
+    const length = fuzzyPhrase.words[0].length;
+    let index = byLength.get(length);
+    if (!index) {
+      index = { byPiece: new Map(), unindexed: [] };
+      byLength.set(length, index);
+    }
+
+    if (fuzzyPhrase.minSharedPieces > 0) {
+      for (const piece of fuzzyPhrase.pieces) {
+        const phrases = index.byPiece.get(piece);
+        if (phrases) {
+          phrases.push(fuzzyPhrase);
+        } else {
+          index.byPiece.set(piece, [fuzzyPhrase]);
+        }
+      }
+    } else {
+      index.unindexed.push(fuzzyPhrase);
+    }
+    this.count++;
+    this.maxDistance = Math.max(this.maxDistance, fuzzyPhrase.maxDistance);
+  }
+
+  search(searchText: SearchText): Match[] {
+    const words = searchText.words();
+    const matches: Match[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      for (const [fold, byLength] of this.byFold) {
+        for (const fuzzyPhrase of this.candidates(byLength, foldedTextWord(words[i], fold))) {
+          const end = matchFuzzy(searchText, i, fuzzyPhrase);
+          if (end === null) continue;
+
+          matches.push({
+            start: words[i].start,
+            end,
+            phrase: fuzzyPhrase.phrase,
+            ...fuzzyPhrase.style,
+            fuzzy: true
+          });
+          if (matches.length >= MAX_FUZZY_MATCHES_PER_TEXT) return matches;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private candidates(byLength: Map<number, FuzzyLengthIndex>, word: string): FuzzyPhrase[] {
+    const pieces = wordPieces(word);
+    const candidates: FuzzyPhrase[] = [];
+    const shared = new Map<FuzzyPhrase, number>();
+
+    for (let length = word.length - this.maxDistance; length <= word.length + this.maxDistance; length++) {
+      const index = byLength.get(length);
+      if (!index) continue;
+
+      for (const fuzzyPhrase of index.unindexed) candidates.push(fuzzyPhrase);
+      for (const piece of pieces) {
+        for (const fuzzyPhrase of index.byPiece.get(piece) || []) {
+          const count = (shared.get(fuzzyPhrase) ?? 0) + 1;
+          shared.set(fuzzyPhrase, count);
+          if (count === fuzzyPhrase.minSharedPieces) candidates.push(fuzzyPhrase);
+        }
+      }
+    }
+
+    return candidates;
+  }
+}
+
+// Match a fuzzy phrase starting at text word `first`; returns the end offset or null.
+// Exact matches return null too - they come from the automaton
+function matchFuzzy(searchText: SearchText, first: number, fuzzyPhrase: FuzzyPhrase): number | null {
+  const words = searchText.words();
+  const { separators, maxDistance } = fuzzyPhrase;
+  if (first + fuzzyPhrase.words.length > words.length) return null;
+
+  let distance = 0;
+  for (let k = 0; k < fuzzyPhrase.words.length; k++) {
+    const word = foldedTextWord(words[first + k], fuzzyPhrase.fold);
+    distance += boundedEditDistance(word, fuzzyPhrase.words[k], maxDistance - distance);
+    if (distance > maxDistance) return null;
+    if (k > 0 && !separatorMatches(searchText, first, k, separators)) return null;
+  }
+
+  return distance > 0 ? words[first + fuzzyPhrase.words.length - 1].end : null;
+}
+
+// Whether a match overlaps any of the kept matches (sorted by start, non-overlapping)
+function overlapsKept(kept: Match[], match: Match): boolean {
+  let low = 0;
+  let high = kept.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (kept[mid].start < match.start) low = mid + 1;
+    else high = mid;
+  }
+  return (low > 0 && kept[low - 1].end > match.start) || (low < kept.length && kept[low].start < match.end);
+}
+
+// Sort by position, then by length (longest first for overlaps), exact before fuzzy
+function sortByPosition(matches: Match[]): void {
+  matches.sort((a, b) => {
+    if (a.start !== b.start) return a.start - b.start;
+    if (a.end !== b.end) return b.end - a.end; // Longer matches first
+    return Number(a.fuzzy === true) - Number(b.fuzzy === true);
+  });
+}
+
+// Keep the longest of overlapping matches (first on ties) - one left-to-right pass
+function keepLongest(matches: Match[]): Match[] {
+  const filtered: Match[] = [];
+  let lastEnd = 0;
+  for (const match of matches) {
+    if (match.start >= lastEnd) {
+      filtered.push(match);
+      lastEnd = match.end;
+    }
+  }
+  return filtered;
+}
+
+// Distinct priorities, highest (lowest number) first
+function priorityTiers(matches: Match[]): number[] {
+  return Array.from(new Set(matches.map(match => match.priority))).sort((a, b) => a - b);
+}
+
+// Higher-priority phrases (lower numbers) win; among equal priorities, the longest wins
+function keepHighestPriority(matches: Match[]): Match[] {
+  const priorities = priorityTiers(matches);
+  if (priorities.length === 1) return keepLongest(matches);
+
+  // Fill in matches one priority at a time, each keeping the left-to-right order above
+  const kept: Match[] = [];
+  for (const priority of priorities) {
     for (const match of matches) {
-      if (match.start >= lastEnd) {
-        filtered.push(match);
-        lastEnd = match.end;
+      if (match.priority !== priority || overlapsKept(kept, match)) continue;
+      let index = kept.length;
+      while (index > 0 && kept[index - 1].start > match.start) index--;
+      kept.splice(index, 0, match);
+    }
+  }
+  return kept;
+}
+
+// Two matches can nest if one contains the other; partial overlaps and repeats of
+// the same range can't be shown together
+function conflictsForNesting(a: Match, b: Match): boolean {
+  if (a.end <= b.start || b.end <= a.start) return false;
+  if (a.start === b.start && a.end === b.end) return true;
+  const aContainsB = a.start <= b.start && b.end <= a.end;
+  const bContainsA = b.start <= a.start && a.end <= b.end;
+  return !aContainsB && !bContainsA;
+}
+
+// Keep matches inside other matches; where matches partially overlap, priority then length decides
+function keepNested(matches: Match[]): Match[] {
+  const kept: Match[] = [];
+  for (const priority of priorityTiers(matches)) {
+    for (const match of matches) {
+      if (match.priority !== priority) continue;
+      if (kept.some(other => conflictsForNesting(other, match))) continue;
+      kept.push(match);
+    }
+  }
+
+  // Outer matches come before the matches inside them
+  sortByPosition(kept);
+  const open: Match[] = [];
+  for (const match of kept) {
+    while (open.length > 0 && open[open.length - 1].end <= match.start) open.pop();
+    match.depth = open.length;
+    open.push(match);
+  }
+  return kept;
+}
+
+// Resolve overlapping matches using the chosen strategy
+function removeOverlaps(matches: Match[], strategy: OverlapStrategy = 'priority-wins'): Match[] {
+  sortByPosition(matches);
+
+  switch (strategy) {
+    case 'longest-wins':
+      return keepLongest(matches);
+    case 'nested':
+      return keepNested(matches);
+    default:
+      return keepHighestPriority(matches);
+  }
+}
+
+// Everything a Matcher needs for one phrase map
+interface CompiledPhrases {
+  automaton: AhoCorasick;
+  accentFoldedAutomaton: AhoCorasick;
+  regexPhrases: RegexPhrase[];
+  wordFormIndex: WordFormIndex;
+  fuzzyIndex: FuzzyIndex;
+}
+
+// Both automata, as serializePhrases sends them
+export interface SerializedPhrases {
+  automaton: SerializedAutomaton;
+  accentFoldedAutomaton: SerializedAutomaton;
+}
+
+type Automata = Pick<CompiledPhrases, 'automaton' | 'accentFoldedAutomaton'>;
+
+// Precompiled automata are used as they are; otherwise the phrases are added to new ones
+function compilePhrases(phraseMap: PhraseMap, automata?: Automata): CompiledPhrases {
+  const compiled: CompiledPhrases = {
+    automaton: automata?.automaton ?? new AhoCorasick(),
+    accentFoldedAutomaton: automata?.accentFoldedAutomaton ?? new AhoCorasick(true),
+    regexPhrases: [],
+    wordFormIndex: new WordFormIndex(),
+    fuzzyIndex: new FuzzyIndex(),
+  };
+  for (const [phrase, info] of phraseMap) {
+    if (info.pattern) {
+      compiled.regexPhrases.push(compilePatternPhrase(phrase, info.pattern, info));
+    } else if (readsAsRegex(phrase, info)) {
+      // Invalid patterns are skipped - the settings page reports them when they're added
+      const regexPhrase = compileRegexPhrase(phrase, info);
+      if (regexPhrase) compiled.regexPhrases.push(regexPhrase);
+    } else if (isGlobPhrase(phrase)) {
+      compiled.regexPhrases.push(compileGlobPhrase(phrase, info));
+    } else {
+      if (!automata) {
+        (info.ignoreAccents ? compiled.accentFoldedAutomaton : compiled.automaton).addPhrase(phrase, info);
       }
+      // Exact matches still come from the automaton; this adds the other word forms
+      const wordFormPhrase = info.matchWordForms ? compileWordFormPhrase(phrase, info) : null;
+      if (wordFormPhrase) compiled.wordFormIndex.add(wordFormPhrase);
+      const fuzzyPhrase = info.fuzzyDistance ? compileFuzzyPhrase(phrase, info, info.fuzzyDistance) : null;
+      if (fuzzyPhrase) compiled.fuzzyIndex.add(fuzzyPhrase);
     }
+  }
+  compiled.automaton.build();
+  compiled.accentFoldedAutomaton.build();
+  return compiled;
+}
+
+// Plain phrases go in the automata; regex, wildcard and pattern phrases don't
+function isAutomatonPhrase(phrase: string, info: PhraseInfo): boolean {
+  return !info.pattern && !readsAsRegex(phrase, info) && !isGlobPhrase(phrase);
+}
 
-    return filtered;
+// Build the automata for phraseMap as plain data, for Matcher.fromSerialized to use
+// elsewhere. Only the phrases and their case and accent settings matter
+export function serializePhrases(phraseMap: PhraseMap): SerializedPhrases {
+  const automaton = new AhoCorasick();
+  const accentFoldedAutomaton = new AhoCorasick(true);
+  for (const [phrase, info] of phraseMap) {
+    if (!isAutomatonPhrase(phrase, info)) continue;
+    (info.ignoreAccents ? accentFoldedAutomaton : automaton).addPhrase(phrase, info);
   }
+  return {
+    automaton: automaton.serialize(),
+    accentFoldedAutomaton: accentFoldedAutomaton.serialize(),
+  };
 }
 
-// Cache the automaton to avoid rebuilding
-let cachedAutomaton: AhoCorasick | null = null;
-let cachedPhraseMap: PhraseMap | null = null;
+// Every match of the compiled phrases, overlapping or not
+function searchPhrases(searchText: SearchText, compiled: CompiledPhrases): Match[] {
+  const matches = compiled.automaton.search(searchText);
+  if (!compiled.accentFoldedAutomaton.isEmpty()) {
+    appendMatches(matches, compiled.accentFoldedAutomaton.search(searchText));
+  }
+  for (const regexPhrase of compiled.regexPhrases) {
+    appendMatches(matches, searchRegexPhrase(searchText, regexPhrase));
+  }
+  if (compiled.wordFormIndex.size > 0) {
+    appendMatches(matches, compiled.wordFormIndex.search(searchText));
+  }
+  if (compiled.fuzzyIndex.size > 0) {
+    appendMatches(matches, compiled.fuzzyIndex.search(searchText));
+  }
+  return matches;
+}
+
+// One by one: spreading a long text's matches into push() overflows the call stack
+function appendMatches(matches: Match[], more: Match[]): void {
+  for (const match of more) matches.push(match);
+}
 
-export function findMatches(text: string, phraseMap: PhraseMap): Match[] {
-  // Rebuild automaton if phrase map changed
-  if (phraseMap !== cachedPhraseMap) {
-    cachedAutomaton = new AhoCorasick();
-    for (const [phrase, colors] of phraseMap) {
-      cachedAutomaton.addPhrase(phrase, colors);
+export interface MatcherOptions extends FindMatchesOptions {
+  caseMode?: CaseMode;  // For phrases that don't set their own. Defaults to 'auto'
+  wordBoundaries?: boolean;  // False lets phrases match inside words ("java" in "javascript"). Defaults to true
+}
+
+// A compiled phrase map: build it once, then search any number of texts. Each matcher
+// owns its compiled phrases, so several can be kept side by side (such as a settings
+// preview next to the page's own phrases) and dropped when they're no longer needed
+export class Matcher {
+  private readonly phrases: PhraseMap;  // phraseMap with options.caseMode filled in
+  private compiled: CompiledPhrases | null = null;
+  private compiledExclusions = new Map<PhraseMap, CompiledPhrases>();
+
+  constructor(readonly phraseMap: PhraseMap, private readonly options: MatcherOptions = {}) {
+    this.phrases = this.withCaseMode(phraseMap);
+  }
+
+  // A matcher around automata serialized for a superset of phraseMap's phrases (such as
+  // every group's), so only the rest is compiled here. Null if one of its phrases is
+  // missing from them or was compiled with another case or accent setting
+  static fromSerialized(phraseMap: PhraseMap, serialized: SerializedPhrases, options: MatcherOptions = {}): Matcher | null {
+    const matcher = new Matcher(phraseMap, options);
+    const automata: Automata = {
+      automaton: AhoCorasick.deserialize(serialized.automaton, matcher.phrases),
+      accentFoldedAutomaton: AhoCorasick.deserialize(serialized.accentFoldedAutomaton, matcher.phrases),
+    };
+    let phraseCount = 0;
+    for (const [phrase, info] of phraseMap) {
+      if (isAutomatonPhrase(phrase, info)) phraseCount++;
     }
-    cachedAutomaton.build();
-    cachedPhraseMap = phraseMap;
+    if (automata.automaton.size + automata.accentFoldedAutomaton.size !== phraseCount) return null;
+
+    matcher.compiled = compilePhrases(matcher.phrases, automata);
+    return matcher;
+  }
+
+  // Compile the phrases now instead of on the first search
+  build(): this {
+    this.compiled ??= compilePhrases(this.phrases);
+    return this;
+  }
+
+  // Options given here override the matcher's for this search
+  search(text: string, options: FindMatchesOptions = {}): Match[] {
+    const searchText = new SearchText(text, this.options.wordBoundaries ?? true);
+    this.build();
+    const matches = searchPhrases(searchText, this.compiled!);
+    return removeOverlaps(
+      this.dropExcluded(searchText, matches),
+      options.overlapStrategy ?? this.options.overlapStrategy
+    );
+  }
+
+  // Free the compiled phrases. Searching again builds them again
+  dispose(): void {
+    this.compiled = null;
+    this.compiledExclusions.clear();
   }
 
-  if (!cachedAutomaton) return [];
+  private withCaseMode(phraseMap: PhraseMap): PhraseMap {
+    const { caseMode } = this.options;
+    if (!caseMode) return phraseMap;
+    return new Map([...phraseMap].map(([phrase, info]) => [phrase, { ...info, caseMode: info.caseMode ?? caseMode }]));
+  }
+
+  // Drop matches that overlap a match of their phrase's exclusions. Phrases usually share
+  // their group's exclusions, so each exclusion map is searched at most once per text
+  private dropExcluded(searchText: SearchText, matches: Match[]): Match[] {
+    const excludedRanges = new Map<PhraseMap, Match[]>();
+
+    return matches.filter(match => {
+      const exclusions = this.phraseMap.get(match.phrase)?.exclusions;
+      if (!exclusions || exclusions.size === 0) return true;
+
+      let ranges = excludedRanges.get(exclusions);
+      if (!ranges) {
+        let compiled = this.compiledExclusions.get(exclusions);
+        if (!compiled) {
+          compiled = compilePhrases(this.withCaseMode(exclusions));
+          this.compiledExclusions.set(exclusions, compiled);
+        }
+        ranges = searchPhrases(searchText, compiled);
+        excludedRanges.set(exclusions, ranges);
+      }
+      return !ranges.some(range => range.start < match.end && match.start < range.end);
+    });
+  }
+}
+
+// The matchers findMatches uses, by phrase map, so callers can switch between maps (such
+// as the page's phrases and the phrases proximity rules look for) without rebuilding
+let sharedMatchers = new WeakMap<PhraseMap, Matcher>();
+
+export function findMatches(text: string, phraseMap: PhraseMap, options: FindMatchesOptions = {}): Match[] {
+  let matcher = sharedMatchers.get(phraseMap);
+  if (!matcher) {
+    matcher = new Matcher(phraseMap);
+    sharedMatchers.set(phraseMap, matcher);
+  }
+  return matcher.search(text, options);
+}
 
-  return cachedAutomaton.search(text);
+// Have findMatches use automata serialized for a superset of phraseMap's phrases (see
+// Matcher.fromSerialized). Returns false, and phraseMap compiles as usual when it's
+// first searched, if they don't cover it
+export function loadSerializedPhrases(phraseMap: PhraseMap, serialized: SerializedPhrases): boolean {
+  const matcher = Matcher.fromSerialized(phraseMap, serialized);
+  if (!matcher) return false;
+  sharedMatchers.set(phraseMap, matcher);
+  return true;
 }
 
 // Clear the cache (useful when settings change)
 export function clearMatcherCache(): void {
-  cachedAutomaton = null;
-  cachedPhraseMap = null;
+  sharedMatchers = new WeakMap();
 }
@@ -0,0 +1,36 @@
+// Web Worker entry - runs the matcher off the page's main thread for the content script
+// The content script sends the phrase map once, then batches of texts; each text gets
+// back exactly what findMatches would return for it on the main thread
+
+import { findMatches, loadSerializedPhrases, type Match, type PhraseMap, type SerializedPhrases } from './matcher';
+import type { OverlapStrategy } from './types';
+
+export type MatcherRequest =
+  | { type: 'config'; phraseMap: PhraseMap; overlapStrategy?: OverlapStrategy; serializedPhrases?: SerializedPhrases }
+  | { type: 'match'; requestId: number; texts: string[] };
+
+export interface MatcherResponse {
+  requestId: number;
+  matches: Match[][];  // One list per text, in the order they were sent
+}
+
+let phraseMap: PhraseMap = new Map();
+let overlapStrategy: OverlapStrategy | undefined;
+
+addEventListener('message', (event: MessageEvent<MatcherRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'config') {
+    // Maps arrive as copies, so the matcher compiles each config once
+    phraseMap = request.phraseMap;
+    overlapStrategy = request.overlapStrategy;
+    if (request.serializedPhrases) loadSerializedPhrases(phraseMap, request.serializedPhrases);
+    return;
+  }
+
+  const response: MatcherResponse = {
+    requestId: request.requestId,
+    matches: request.texts.map(text => findMatches(text, phraseMap, { overlapStrategy })),
+  };
+  postMessage(response);
+});
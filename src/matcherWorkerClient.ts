@@ -0,0 +1,99 @@
+// Talks to the matcher worker (matcherWorker.ts) from the content script
+// Content scripts can't start workers from extension URLs, so the worker's code comes
+// from the background script and is started from a blob URL. Pages whose Content
+// Security Policy blocks that get no worker, and the caller matches on the main thread instead
+
+import { browserAPI } from './browserApi.js';
+import type { Match, PhraseMap, SerializedPhrases } from './matcher.js';
+import type { OverlapStrategy } from './types.js';
+import type { MatcherRequest, MatcherResponse } from './matcherWorker.js';
+
+const WORKER_START_TIMEOUT_MS = 2000;
+
+interface PendingRequest {
+  resolve: (matches: Match[][]) => void;
+  reject: (error: Error) => void;
+}
+
+export class MatcherWorkerClient {
+  private nextRequestId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private phraseMap: PhraseMap | null = null;
+  private overlapStrategy: OverlapStrategy | undefined;
+
+  private constructor(private worker: Worker) {
+    worker.addEventListener('message', (event: MessageEvent<MatcherResponse>) => {
+      const request = this.pending.get(event.data.requestId);
+      this.pending.delete(event.data.requestId);
+      request?.resolve(event.data.matches);
+    });
+    // A worker that fails (or never loads) fails everything still waiting on it
+    worker.addEventListener('error', () => {
+      for (const request of this.pending.values()) {
+        request.reject(new Error('Matcher worker failed'));
+      }
+      this.pending.clear();
+    });
+  }
+
+  // Start the worker, or return null if the page doesn't allow it
+  static async start(): Promise<MatcherWorkerClient | null> {
+    let worker: Worker | null = null;
+    let url: string | null = null;
+    let timer: number | undefined;
+    try {
+      const response = await browserAPI.runtime.sendMessage({ type: 'getMatcherWorkerSource' });
+      if (!response?.source) return null;
+      url = URL.createObjectURL(new Blob([response.source], { type: 'text/javascript' }));
+      worker = new Worker(url);
+
+      // Blocked workers don't always throw, so wait for a first (empty) round trip
+      const client = new MatcherWorkerClient(worker);
+      const timeout = new Promise<never>((_, reject) => {
+        timer = window.setTimeout(() => reject(new Error('Matcher worker did not start')), WORKER_START_TIMEOUT_MS);
+      });
+      await Promise.race([client.match([]), timeout]);
+      return client;
+    } catch {
+      worker?.terminate();
+      return null;
+    } finally {
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    }
+  }
+
+  // Send the phrase map (if it changed) that following match() calls use, with the
+  // precompiled automata to load it from if there are any
+  configure(
+    phraseMap: PhraseMap,
+    overlapStrategy: OverlapStrategy | undefined,
+    serializedPhrases?: SerializedPhrases
+  ): void {
+    if (phraseMap === this.phraseMap && overlapStrategy === this.overlapStrategy) return;
+    this.phraseMap = phraseMap;
+    this.overlapStrategy = overlapStrategy;
+    this.post({ type: 'config', phraseMap, overlapStrategy, serializedPhrases });
+  }
+
+  // Find the matches in each text, as findMatches would
+  match(texts: string[]): Promise<Match[][]> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      this.post({ type: 'match', requestId, texts });
+    });
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    for (const request of this.pending.values()) {
+      request.reject(new Error('Matcher worker stopped'));
+    }
+    this.pending.clear();
+  }
+
+  private post(request: MatcherRequest): void {
+    this.worker.postMessage(request);
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildRecognizer } from './patterns';
+import type { PatternType } from './types';
+
+// What a recognizer built for these locales finds in text, after its accept check
+const recognized = (type: PatternType, text: string, locales = ['en']): string[] => {
+  const { regex, accept } = buildRecognizer(type, locales);
+  return [...text.matchAll(regex)].map(match => match[0]).filter(match => accept?.(match) ?? true);
+};
+
+describe('Patterns - Amounts', () => {
+  it('should read thousands and decimals written the ways locales write them', () => {
+    expect(recognized('currency', 'Costs 1,234.50 USD, 1.234,50 €, 1 234,50 €, 1\u202f234,50 € or 1’234.50 CHF'))
+      .toEqual(['1,234.50 USD', '1.234,50 €', '1 234,50 €', '1\u202f234,50 €', '1’234.50 CHF']);
+  });
+
+  it('should take symbols and codes before or after the amount', () => {
+    expect(recognized('currency', 'Budget: €45, 45 €, 45€, US$120k, ¥1,000 and 300 EUR'))
+      .toEqual(['€45', '45 €', '45€', 'US$120k', '¥1,000', '300 EUR']);
+  });
+
+  it('should not start an amount inside a longer number', () => {
+    expect(recognized('currency', 'In 2026 100 € were raised, and 12345 € later')).toEqual(['100 €', '12345 €']);
+  });
+
+  it('should not treat plain numbers, addresses or dates as amounts', () => {
+    expect(recognized('currency', 'Version 19.10.2026 on 192.168.1.1, 120 apples')).toEqual([]);
+  });
+
+  it('should read ranges with the currency on either end', () => {
+    expect(recognized('salary', '50 000 - 60 000 € per year, or $90k to 110k, not 50 - 60 people'))
+      .toEqual(['50 000 - 60 000 € per year', '$90k to 110k']);
+  });
+});
+
+describe('Patterns - Dates', () => {
+  it('should read month names in the given languages', () => {
+    expect(recognized('date', 'Ab 19. Oktober 2026 oder 3. März 2027', ['en', 'de']))
+      .toEqual(['19. Oktober 2026', '3. März 2027']);
+    expect(recognized('date', 'Le 19 octobre 2026 ou le 1 févr. 2027', ['en', 'fr']))
+      .toEqual(['19 octobre 2026', '1 févr. 2027']);
+  });
+
+  it('should only read month names of languages it was built for', () => {
+    expect(recognized('date', 'Ab 19. Oktober 2026, until 19 October 2026')).toEqual(['19 October 2026']);
+  });
+
+  it('should reject days that do not exist', () => {
+    expect(recognized('date', '31/02/2026, 29/02/2025, 2026-02-30, 2026-04-31 and 32.01.2026')).toEqual([]);
+    expect(recognized('date', '29/02/2024, 2026-04-30 and 31.01.2026')).toEqual(['29/02/2024', '2026-04-30', '31.01.2026']);
+  });
+
+  it('should accept numeric dates that are valid day-first or month-first', () => {
+    expect(recognized('date', '10/19/2026 and 19/10/2026, not 19/19/2026')).toEqual(['10/19/2026', '19/10/2026']);
+  });
+
+  it('should not read versions or addresses as dates', () => {
+    expect(recognized('date', 'Release 1.2.23, 10.10.10.10, 192.168.1.1 or 2.10.2026.1')).toEqual([]);
+  });
+});
+
+describe('Patterns - Versions', () => {
+  it('should not read addresses or day.month.year dates as versions', () => {
+    expect(recognized('version', 'Host 10.0.0.1:8080 and 192.168.1.1 since 19.10.2026 and 1.2.2026')).toEqual([]);
+  });
+
+  it('should read date-shaped versions that are not day.month.year', () => {
+    expect(recognized('version', 'Upgrade to 2026.10.1, 10.10.10 or v19.10.2026')).toEqual(['2026.10.1', '10.10.10', 'v19.10.2026']);
+  });
+});
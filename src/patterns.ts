@@ -0,0 +1,159 @@
+// Built-in pattern types a group can highlight next to its phrases, such as email
+// addresses or salary ranges, so nobody has to write (or review) a regex for them.
+// Recognisers accept the formats used across locales: "1,234.50", "1.234,50" and
+// "1 234,50" amounts, symbols before or after, and month names in the browser's languages
+
+import type { PatternType } from './types';
+
+export const PATTERN_TYPES: PatternType[] = ['email', 'currency', 'salary', 'date', 'version'];
+
+export const PATTERN_LABELS: Record<PatternType, string> = {
+  email: 'Email addresses',
+  currency: 'Amounts of money',
+  salary: 'Salary ranges',
+  date: 'Dates',
+  version: 'Version numbers',
+};
+
+export const PATTERN_EXAMPLES: Record<PatternType, string> = {
+  email: 'jane@example.com',
+  currency: "$120k, €45.000, 1'200 CHF",
+  salary: '$120k–$150k, €50.000 - 60.000 p.a.',
+  date: '2026-10-19, 19/10/2026, 19 Oct 2026',
+  version: 'v2.3, 2.3.1, 1.0.0-beta.2',
+};
+
+export function isPatternType(value: unknown): value is PatternType {
+  return typeof value === 'string' && (PATTERN_TYPES as string[]).includes(value);
+}
+
+// The phrase map key for a group's pattern. Matches report it as their phrase
+export function patternPhrase(type: PatternType): string {
+  return `pattern:${type}`;
+}
+
+// A pattern's regex, plus a check for what a regex can't express (like valid dates)
+export interface PatternRecognizer {
+  regex: RegExp;  // Global
+  accept?: (text: string) => boolean;
+}
+
+// Amounts and ranges
+
+const CURRENCY_SYMBOL = '(?:[A-Z]{1,2})?[$€£¥₹₩₽₺₪฿₫₴₦₱]';
+const CURRENCY_CODE = '(?:USD|EUR|GBP|JPY|CNY|INR|CAD|AUD|NZD|CHF|SEK|NOK|DKK|PLN|CZK|HUF|BRL|MXN|ZAR|SGD|HKD)';
+const CURRENCY = `(?:${CURRENCY_SYMBOL}|${CURRENCY_CODE})`;
+// Thousands grouped with commas, dots, apostrophes or spaces, never starting or ending
+// inside a longer number ("in 2026 100 €" is "100 €")
+const NUMBER = "(?<![\\d.,])(?:\\d{1,3}(?:[,.'’ \\u00a0\\u202f\\u2009]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)(?!\\d)";
+const SCALE = '(?:\\s?(?:[kKmM]|bn|mn)(?![\\p{L}\\p{N}])|\\s(?:thousand|million|billion)(?![\\p{L}]))?';
+const BARE_AMOUNT = `${NUMBER}${SCALE}`;
+const AMOUNT = `(?:${CURRENCY}\\s?${BARE_AMOUNT}|${BARE_AMOUNT}\\s?${CURRENCY})`;
+const RANGE_SEPARATOR = '\\s?(?:[-–—]|to|bis|à)\\s?';
+const PER_PERIOD = '(?:\\s?(?:/|per|a|an)\\s?(?:year|yr|annum|month|mo|hour|hr)(?![\\p{L}])|\\s?p\\.?a\\.?(?![\\p{L}]))?';
+
+// Dates
+
+const ORDINAL = '(?:st|nd|rd|th)?';
+
+// Month names (long and short, standalone and as used in dates) in English and the
+// browser's languages, longest first so "September" wins over "Sep"
+function monthNames(locales: string[]): string[] {
+  const names = new Set<string>();
+  for (const locale of locales) {
+    for (const month of ['long', 'short'] as const) {
+      let standalone: Intl.DateTimeFormat;
+      let inDate: Intl.DateTimeFormat;
+      try {
+        standalone = new Intl.DateTimeFormat(locale, { month });
+        inDate = new Intl.DateTimeFormat(locale, { month, day: 'numeric' });
+      } catch {
+        continue;  // Unsupported locale
+      }
+      for (let m = 0; m < 12; m++) {
+        const date = new Date(2000, m, 15);
+        names.add(standalone.format(date));
+        const part = inDate.formatToParts(date).find(p => p.type === 'month');
+        if (part) names.add(part.value);
+      }
+    }
+  }
+  return [...names]
+    .map(name => name.replace(/\.$/, ''))
+    .filter(name => /^\p{L}+$/u.test(name))
+    .sort((a, b) => b.length - a.length);
+}
+
+function browserLocales(): string[] {
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [] : [];
+  return ['en', ...languages];
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= new Date(year, month, 0).getDate();
+}
+
+// Numeric dates are accepted if they're valid day-first or month-first, since the page's
+// locale decides which and the two are often mixed on one page
+function isValidNumericDate(text: string): boolean {
+  if (!/^\d+[-/.]\d+[-/.]\d+$/.test(text)) return true;  // Written dates are checked by the regex
+  const parts = text.split(/[-/.]/).map(Number);
+  if (/^\d{4}/.test(text)) return isValidDate(parts[0], parts[1], parts[2]);
+  const year = parts[2] < 100 ? 2000 + parts[2] : parts[2];
+  return isValidDate(year, parts[1], parts[0]) || isValidDate(year, parts[0], parts[1]);
+}
+
+// Versions
+
+// "19.10.2026" is a date, even if it looks like major.minor.patch
+function isVersion(text: string): boolean {
+  return !/^\d{1,2}\.\d{1,2}\.\d{4}$/.test(text);
+}
+
+// Exported for testing
+export function buildRecognizer(type: PatternType, locales: string[]): PatternRecognizer {
+  switch (type) {
+    case 'email':
+      return { regex: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu };
+    case 'currency':
+      return { regex: new RegExp(AMOUNT, 'gu') };
+    case 'salary':
+      return {
+        regex: new RegExp(
+          `(?:${AMOUNT}${RANGE_SEPARATOR}(?:${AMOUNT}|${BARE_AMOUNT})|${BARE_AMOUNT}${RANGE_SEPARATOR}${AMOUNT})${PER_PERIOD}`,
+          'gu'
+        ),
+      };
+    case 'date': {
+      const month = `(?:${monthNames(locales).join('|')})\\.?`;
+      return {
+        regex: new RegExp([
+          '(?<![\\d.])\\d{4}-\\d{1,2}-\\d{1,2}(?!\\d)',
+          '(?<![\\d.])\\d{1,2}([/-])\\d{1,2}\\1(?:\\d{4}|\\d{2})(?!\\d)',
+          // Dotted dates need a four-digit year, so versions like 1.2.23 and addresses aren't dates
+          '(?<![\\d.])\\d{1,2}\\.\\d{1,2}\\.\\d{4}(?!\\.?\\d)',
+          `\\d{1,2}${ORDINAL}\\.?\\s(?:of\\s)?${month},?\\s\\d{4}`,
+          `${month}\\s\\d{1,2}${ORDINAL},?\\s\\d{4}`,
+        ].join('|'), 'giu'),
+        accept: isValidNumericDate,
+      };
+    }
+    case 'version':
+      return {
+        regex: /(?<![\d.])(?:[vV]\d+(?:\.\d+){1,3}|\d+(?:\.\d+){2})(?:-[0-9A-Za-z.-]*[0-9A-Za-z])?(?:\+[0-9A-Za-z.-]*[0-9A-Za-z])?(?!\.?\d)/g,
+        accept: isVersion,
+      };
+  }
+}
+
+const recognizers = new Map<PatternType, PatternRecognizer>();
+
+// The recogniser for a pattern type, built on first use
+export function patternRecognizer(type: PatternType): PatternRecognizer {
+  let recognizer = recognizers.get(type);
+  if (!recognizer) {
+    recognizer = buildRecognizer(type, browserLocales());
+    recognizers.set(type, recognizer);
+  }
+  return recognizer;
+}
@@ -2,8 +2,8 @@
  * Domain card component - handles creation and interaction for domain cards in settings
  */
 
-import type { Domain } from '../types';
-import { createElement, createText, showToast } from '../utils/dom';
+import type { Domain, OverlapStrategy } from '../types';
+import { createElement, createText, showToast, isValidSelector } from '../utils/dom';
 import { getDomains } from '../utils/storage';
 import { getGroups } from '../utils/storage';
 import { addOrUpdateDomainWithPermission } from '../../storage';
@@ -99,6 +99,32 @@ export function createDomainCard(d: Domain): HTMLElement {
   groupsInfo.appendChild(createText(groupsDisplay));
   viewMode.appendChild(groupsInfo);
 
+  const matchingNotes = [
+    ...(d.matchAcrossElements ? ['Across inline elements'] : []),
+    ...(d.matchInWorker ? ['In the background'] : []),
+    ...(d.overlapStrategy && d.overlapStrategy !== 'priority-wins' ? [OVERLAP_STRATEGY_LABELS[d.overlapStrategy]] : []),
+  ];
+  if (matchingNotes.length > 0) {
+    const matchingInfo = createElement('div', { className: 'domain-info' });
+    matchingInfo.appendChild(createElement('strong', { textContent: 'Matching: ' }));
+    matchingInfo.appendChild(createText(matchingNotes.join(', ')));
+    viewMode.appendChild(matchingInfo);
+  }
+
+  if (d.actionContainer) {
+    const actionInfo = createElement('div', { className: 'domain-info' });
+    actionInfo.appendChild(createElement('strong', { textContent: 'Group actions apply to: ' }));
+    actionInfo.appendChild(createText(d.actionContainer));
+    viewMode.appendChild(actionInfo);
+  }
+
+  if (d.scoreBadges) {
+    const scoreInfo = createElement('div', { className: 'domain-info' });
+    scoreInfo.appendChild(createElement('strong', { textContent: 'Score badges: ' }));
+    scoreInfo.appendChild(createText(d.scoreBadges.container));
+    viewMode.appendChild(scoreInfo);
+  }
+
   card.appendChild(viewMode);
 
   // Edit mode content
@@ -176,6 +202,107 @@ export function createDomainCard(d: Domain): HTMLElement {
 
   editMode.appendChild(modeContainer);
 
+  // Matching options
+  const matchingContainer = createElement('div', { style: { margin: '15px 0' } });
+  matchingContainer.appendChild(createElement('label', {
+    textContent: 'Matching:',
+    style: { fontWeight: '600', display: 'block', marginBottom: '10px' }
+  }));
+  const matchAcrossLabel = createElement('label', {
+    attributes: { title: 'Match phrases split by links or formatting, like "code <b>review</b>"' }
+  });
+  matchAcrossLabel.appendChild(createElement('input', {
+    attributes: {
+      type: 'checkbox',
+      ...(d.matchAcrossElements ? { checked: '' } : {})
+    },
+    className: 'edit-domain-match-across'
+  }));
+  matchAcrossLabel.appendChild(createText(' Match across links and formatting'));
+  matchingContainer.appendChild(matchAcrossLabel);
+
+  const matchInWorkerLabel = createElement('label', {
+    style: { display: 'block', marginTop: '10px' },
+    attributes: {
+      title: 'Find matches in a background thread so very long pages (feeds, large diffs) stay responsive while highlighting. ' +
+        'Sites that block background threads in their security policy (such as GitHub) are matched on the page as usual'
+    }
+  });
+  matchInWorkerLabel.appendChild(createElement('input', {
+    attributes: {
+      type: 'checkbox',
+      ...(d.matchInWorker ? { checked: '' } : {})
+    },
+    className: 'edit-domain-match-in-worker'
+  }));
+  matchInWorkerLabel.appendChild(createText(' Match in the background (for heavy pages)'));
+  matchingContainer.appendChild(matchInWorkerLabel);
+
+  const overlapLabel = createElement('label', { style: { display: 'block', marginTop: '10px' } });
+  overlapLabel.appendChild(createText('Overlapping matches: '));
+  const overlapSelect = createElement('select', { className: 'edit-domain-overlap-strategy' });
+  OVERLAP_STRATEGIES.forEach(strategy => {
+    overlapSelect.appendChild(createElement('option', {
+      textContent: OVERLAP_STRATEGY_LABELS[strategy],
+      attributes: {
+        value: strategy,
+        ...((d.overlapStrategy || 'priority-wins') === strategy ? { selected: '' } : {})
+      }
+    }));
+  });
+  overlapLabel.appendChild(overlapSelect);
+  matchingContainer.appendChild(overlapLabel);
+
+  editMode.appendChild(matchingContainer);
+
+  // Group actions (dim, blur, hide...) apply to the nearest ancestor matching this
+  const actionContainer = createElement('div', { style: { margin: '15px 0' } });
+  actionContainer.appendChild(createElement('label', {
+    textContent: 'Items for group actions:',
+    style: { fontWeight: '600', display: 'block', marginBottom: '10px' }
+  }));
+  actionContainer.appendChild(createElement('input', {
+    attributes: {
+      type: 'text',
+      value: d.actionContainer ?? '',
+      placeholder: 'Item around a match (CSS selector), e.g. .feed-shared-update-v2',
+      title: 'Groups that dim, blur, hide or outline apply it to the nearest element matching this. Leave empty to use the paragraph'
+    },
+    className: 'edit-domain-action-container'
+  }));
+  editMode.appendChild(actionContainer);
+
+  // Score badges: total the group weights of the matches in each region of the page
+  const scoreContainer = createElement('div', { style: { margin: '15px 0' } });
+  scoreContainer.appendChild(createElement('label', {
+    textContent: 'Score badges:',
+    style: { fontWeight: '600', display: 'block', marginBottom: '10px' }
+  }));
+  scoreContainer.appendChild(createElement('input', {
+    attributes: {
+      type: 'text',
+      value: d.scoreBadges?.container ?? '',
+      placeholder: 'Regions to score (CSS selector), e.g. .job-card-container',
+      title: 'Each matching element gets a badge with the total weight of the phrases highlighted in it. Leave empty for no badges'
+    },
+    className: 'edit-domain-score-container'
+  }));
+  const thresholdsLabel = createElement('label', { style: { display: 'block', marginTop: '10px' } });
+  thresholdsLabel.appendChild(createText('Green at or above '));
+  thresholdsLabel.appendChild(createElement('input', {
+    attributes: { type: 'number', step: '1', value: String(d.scoreBadges?.goodAt ?? 1) },
+    className: 'edit-domain-score-good',
+    style: { width: '64px' }
+  }));
+  thresholdsLabel.appendChild(createText(', red at or below '));
+  thresholdsLabel.appendChild(createElement('input', {
+    attributes: { type: 'number', step: '1', value: String(d.scoreBadges?.badAt ?? -1) },
+    className: 'edit-domain-score-bad',
+    style: { width: '64px' }
+  }));
+  scoreContainer.appendChild(thresholdsLabel);
+  editMode.appendChild(scoreContainer);
+
   // Group selection
   const groupSelection = createElement('div', { className: 'group-selection' });
   groupSelection.appendChild(createElement('div', {
@@ -313,6 +440,14 @@ export function createDomainCard(d: Domain): HTMLElement {
   return card;
 }
 
+const OVERLAP_STRATEGIES: OverlapStrategy[] = ['priority-wins', 'longest-wins', 'nested'];
+
+const OVERLAP_STRATEGY_LABELS: Record<OverlapStrategy, string> = {
+  'priority-wins': 'Higher group wins',
+  'longest-wins': 'Longest phrase wins',
+  'nested': 'Show nested highlights'
+};
+
 async function saveDomainFromCard(card: HTMLElement) {
   const id = card.getAttribute('data-id');
 
@@ -336,11 +471,49 @@ async function saveDomainFromCard(card: HTMLElement) {
   const groupingRadio = card.querySelector('.edit-domain-grouping:checked') as HTMLInputElement;
   const groupingMode = groupingRadio?.value || 'all';
 
+  const matchAcrossCheckbox = card.querySelector('.edit-domain-match-across') as HTMLInputElement;
+  const matchInWorkerCheckbox = card.querySelector('.edit-domain-match-in-worker') as HTMLInputElement;
+  const overlapSelect = card.querySelector('.edit-domain-overlap-strategy') as HTMLSelectElement;
+  const overlapStrategy = (overlapSelect?.value || 'priority-wins') as OverlapStrategy;
+
+  const actionContainerInput = card.querySelector('.edit-domain-action-container') as HTMLInputElement;
+  const actionContainer = actionContainerInput?.value.trim() ?? '';
+  if (actionContainer && !isValidSelector(actionContainer)) {
+    showToast('Items for group actions must be a CSS selector', 'warning');
+    return;
+  }
+
+  const scoreContainerInput = card.querySelector('.edit-domain-score-container') as HTMLInputElement;
+  const scoreContainer = scoreContainerInput?.value.trim() ?? '';
+  const goodAt = Number((card.querySelector('.edit-domain-score-good') as HTMLInputElement)?.value || 1);
+  const badAt = Number((card.querySelector('.edit-domain-score-bad') as HTMLInputElement)?.value || -1);
+  if (scoreContainer) {
+    if (!isValidSelector(scoreContainer)) {
+      showToast('Score badge regions must be a CSS selector', 'warning');
+      return;
+    }
+    if (!Number.isInteger(goodAt) || !Number.isInteger(badAt) || badAt >= goodAt) {
+      showToast('Score thresholds must be whole numbers, with red below green', 'warning');
+      return;
+    }
+  }
+
   const newDomain: Domain = {
     id: id || crypto.randomUUID(),
     domain,
     matchMode,
     mode,
+    ...(matchAcrossCheckbox?.checked ? { matchAcrossElements: true } : {}),
+    ...(matchInWorkerCheckbox?.checked ? { matchInWorker: true } : {}),
+    ...(overlapStrategy !== 'priority-wins' ? { overlapStrategy } : {}),
+    ...(actionContainer ? { actionContainer } : {}),
+    ...(scoreContainer ? {
+      scoreBadges: {
+        container: scoreContainer,
+        ...(goodAt !== 1 ? { goodAt } : {}),
+        ...(badAt !== -1 ? { badAt } : {}),
+      }
+    } : {}),
   };
 
   // Set groups based on grouping mode
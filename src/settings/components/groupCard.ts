@@ -2,10 +2,20 @@
  * Group card component - handles creation and interaction for group cards in settings
  */
 
-import type { Group } from '../types';
+import type { Group, CaseMode, GroupAction, HighlightStyle, HighlightStyleType, PatternType, ProximityRule, ProximityScope } from '../types';
 import { getDebugMode, onStorageChanged } from '../../browserApi';
 import { createElement, createText, showToast } from '../utils/dom';
 import { saveGroups, updateDomainReferencesAfterGroupRename } from '../utils/storage';
+import { validateRegexPhrase } from '../../matcher';
+import { PATTERN_TYPES, PATTERN_LABELS, PATTERN_EXAMPLES } from '../../patterns';
+import {
+  HIGHLIGHT_STYLE_TYPES,
+  HIGHLIGHT_STYLE_LABELS,
+  DEFAULT_HIGHLIGHT_THICKNESS,
+  MAX_HIGHLIGHT_THICKNESS,
+  DEFAULT_HIGHLIGHT_ICON,
+  applyHighlightStyle,
+} from '../../highlightStyles';
 
 // Debug logging infrastructure (shared with content.ts and popup.ts)
 let debugEnabled = false;
@@ -140,6 +150,20 @@ export function createGroupCard(g: Group): HTMLElement {
   deleteBtn.addEventListener('click', () => deleteGroup(g.id));
   actions.appendChild(deleteBtn);
 
+  // Drag handle - saved groups can be reordered, and earlier groups win overlapping matches
+  if (g.id) {
+    const dragHandle = createElement('span', {
+      textContent: '⠿',
+      className: 'drag-handle',
+      attributes: { title: 'Drag to reorder. Groups higher in the list win when phrases overlap' }
+    });
+    // Only the handle starts a drag, so text in the card can still be selected
+    dragHandle.addEventListener('mousedown', () => card.setAttribute('draggable', 'true'));
+    dragHandle.addEventListener('mouseup', () => card.removeAttribute('draggable'));
+    header.appendChild(dragHandle);
+    setupGroupDragAndDrop(card, g.id);
+  }
+
   header.appendChild(toggleLabel);
   header.appendChild(groupName);
   header.appendChild(actions);
@@ -186,8 +210,7 @@ export function createGroupCard(g: Group): HTMLElement {
   lightPreview.appendChild(createText('Click here to customize colors. This is how '));
   lightPreview.appendChild(createElement('span', {
     className: 'highlight-sample',
-    textContent: 'highlighted text',
-    style: { background: g.lightBgColor, color: g.lightTextColor }
+    textContent: 'highlighted text'
   }));
   lightPreview.appendChild(createText(' will appear on light backgrounds.'));
   lightPreview.addEventListener('click', () => toggleColorEdit(lightPreview));
@@ -233,8 +256,8 @@ export function createGroupCard(g: Group): HTMLElement {
   // Sync light mode inputs with auto-save
   syncColorInputs(lightBgColorInput, lightBgHexInput, () => autoSaveGroup(card));
   syncColorInputs(lightTextColorInput, lightTextHexInput, () => autoSaveGroup(card));
-  lightBgColorInput.addEventListener('input', () => updatePreviewColors(lightPreview, lightBgColorInput.value, lightTextColorInput.value));
-  lightTextColorInput.addEventListener('input', () => updatePreviewColors(lightPreview, lightBgColorInput.value, lightTextColorInput.value));
+  lightBgColorInput.addEventListener('input', () => refreshStylePreviews(card));
+  lightTextColorInput.addEventListener('input', () => refreshStylePreviews(card));
 
   colorPreviewSection.appendChild(lightModePreview);
 
@@ -248,8 +271,7 @@ export function createGroupCard(g: Group): HTMLElement {
   darkPreview.appendChild(createText('Click here to customize colors. This is how '));
   darkPreview.appendChild(createElement('span', {
     className: 'highlight-sample',
-    textContent: 'highlighted text',
-    style: { background: g.darkBgColor, color: g.darkTextColor }
+    textContent: 'highlighted text'
   }));
   darkPreview.appendChild(createText(' will appear on dark backgrounds.'));
   darkPreview.addEventListener('click', () => toggleColorEdit(darkPreview));
@@ -295,19 +317,72 @@ export function createGroupCard(g: Group): HTMLElement {
   // Sync dark mode inputs with auto-save
   syncColorInputs(darkBgColorInput, darkBgHexInput, () => autoSaveGroup(card));
   syncColorInputs(darkTextColorInput, darkTextHexInput, () => autoSaveGroup(card));
-  darkBgColorInput.addEventListener('input', () => updatePreviewColors(darkPreview, darkBgColorInput.value, darkTextColorInput.value));
-  darkTextColorInput.addEventListener('input', () => updatePreviewColors(darkPreview, darkBgColorInput.value, darkTextColorInput.value));
+  darkBgColorInput.addEventListener('input', () => refreshStylePreviews(card));
+  darkTextColorInput.addEventListener('input', () => refreshStylePreviews(card));
 
   colorPreviewSection.appendChild(darkModePreview);
   card.appendChild(colorPreviewSection);
+  card.appendChild(createStyleSection(card, g));
 
   // Phrases section
   const phrasesSection = createElement('div', { className: 'phrases-section' });
+  card.appendChild(phrasesSection);
   const phrasesHeader = createElement('div', { className: 'phrases-header' });
   phrasesHeader.appendChild(createElement('span', {
     className: 'phrases-label',
     textContent: 'Phrases to Highlight'
   }));
+
+  // Group-wide case matching (individual phrases can override it)
+  const caseModeSelect = createElement('select', {
+    className: 'edit-group-case-mode',
+    attributes: { title: 'How capitalization is matched for phrases in this group' }
+  });
+  CASE_MODES.forEach(mode => {
+    caseModeSelect.appendChild(createElement('option', {
+      textContent: CASE_MODE_LABELS[mode],
+      attributes: { value: mode, ...((g.caseMode || 'auto') === mode ? { selected: '' } : {}) }
+    }));
+  });
+  caseModeSelect.addEventListener('change', () => autoSaveGroup(card));
+  phrasesHeader.appendChild(caseModeSelect);
+
+  phrasesHeader.appendChild(createPhrasesOption(card, {
+    className: 'edit-group-ignore-accents',
+    label: 'Ignore accents',
+    title: 'Match phrases regardless of accents, e.g. "resume" matches "résumé"',
+    checked: g.ignoreAccents === true
+  }));
+  phrasesHeader.appendChild(createPhrasesOption(card, {
+    className: 'edit-group-match-word-forms',
+    label: 'Word forms',
+    title: 'Also match English plurals and -ed/-ing forms, e.g. "review" matches "reviews", "reviewed" and "reviewing". ' +
+      'Related words ("universal" for "university") and irregular forms ("ran" for "run") are not matched',
+    checked: g.matchWordForms === true
+  }));
+  const useRegexOption = createPhrasesOption(card, {
+    className: 'edit-group-use-regex',
+    label: 'Regex',
+    title: 'Read phrases written as /pattern/flags as regular expressions, e.g. /senior\\s+(staff|principal)/i',
+    checked: g.useRegex === true
+  });
+  useRegexOption.querySelector('input')?.addEventListener('change', () => refreshRegexErrors(card));
+  phrasesHeader.appendChild(useRegexOption);
+
+  // Typo tolerance: highlight near-misses such as "kubernets" for "kubernetes"
+  const fuzzyDistanceSelect = createElement('select', {
+    className: 'edit-group-fuzzy-distance',
+    attributes: { title: 'Also highlight misspellings, allowing this many typos per phrase' }
+  });
+  FUZZY_DISTANCES.forEach(distance => {
+    fuzzyDistanceSelect.appendChild(createElement('option', {
+      textContent: FUZZY_DISTANCE_LABELS[distance],
+      attributes: { value: String(distance), ...((g.fuzzyDistance || 0) === distance ? { selected: '' } : {}) }
+    }));
+  });
+  fuzzyDistanceSelect.addEventListener('change', () => autoSaveGroup(card));
+  phrasesHeader.appendChild(fuzzyDistanceSelect);
+
   phrasesHeader.appendChild(createElement('span', {
     className: 'phrases-count',
     textContent: `${g.phrases.length} phrase${g.phrases.length !== 1 ? 's' : ''}`
@@ -317,25 +392,7 @@ export function createGroupCard(g: Group): HTMLElement {
   // Phrases display with minimal tags
   const phrasesDisplay = createElement('div', { className: 'phrases-display' });
   g.phrases.forEach(phrase => {
-    const phraseItem = createElement('span', { className: 'phrase-item' });
-    phraseItem.appendChild(createElement('span', { className: 'phrase-text', textContent: phrase }));
-    const deleteBtn = createElement('button', {
-      textContent: '×',
-      className: 'phrase-delete'
-    });
-    deleteBtn.addEventListener('click', () => {
-      phraseItem.remove();
-      // Update count
-      const count = phrasesDisplay.querySelectorAll('.phrase-item').length;
-      const countSpan = phrasesSection.querySelector('.phrases-count') as HTMLElement;
-      if (countSpan) {
-        countSpan.textContent = `${count} phrase${count !== 1 ? 's' : ''}`;
-      }
-      // Auto-save after deleting phrase
-      autoSaveGroup(card);
-    });
-    phraseItem.appendChild(deleteBtn);
-    phrasesDisplay.appendChild(phraseItem);
+    phrasesDisplay.appendChild(createPhraseItem(card, phrase, g.phraseCaseModes?.[phrase]));
   });
   phrasesSection.appendChild(phrasesDisplay);
 
@@ -348,37 +405,23 @@ export function createGroupCard(g: Group): HTMLElement {
     textContent: 'Add',
     className: 'btn btn-secondary'
   });
+  const phraseErrorMessage = createElement('div', { className: 'phrase-error' });
 
   const addPhrase = () => {
     const value = phraseInput.value.trim();
+
+    // Regex phrases (/pattern/flags) must compile and be safe to run on every page
+    const error = regexPhraseError(card, value);
+    if (error) {
+      phraseErrorMessage.textContent = error;
+      phraseInput.classList.add('invalid');
+      return;
+    }
+
     if (value) {
-      const phraseItem = createElement('span', { className: 'phrase-item' });
-      phraseItem.appendChild(createElement('span', { className: 'phrase-text', textContent: value }));
-      const deleteBtn = createElement('button', {
-        textContent: '×',
-        className: 'phrase-delete'
-      });
-      deleteBtn.addEventListener('click', () => {
-        phraseItem.remove();
-        // Update count
-        const count = phrasesDisplay.querySelectorAll('.phrase-item').length;
-        const countSpan = phrasesSection.querySelector('.phrases-count') as HTMLElement;
-        if (countSpan) {
-          countSpan.textContent = `${count} phrase${count !== 1 ? 's' : ''}`;
-        }
-        // Auto-save after deleting phrase
-        autoSaveGroup(card);
-      });
-      phraseItem.appendChild(deleteBtn);
-      phrasesDisplay.appendChild(phraseItem);
+      phrasesDisplay.appendChild(createPhraseItem(card, value, undefined));
       phraseInput.value = '';
-
-      // Update count
-      const count = phrasesDisplay.querySelectorAll('.phrase-item').length;
-      const countSpan = phrasesSection.querySelector('.phrases-count') as HTMLElement;
-      if (countSpan) {
-        countSpan.textContent = `${count} phrase${count !== 1 ? 's' : ''}`;
-      }
+      updatePhraseCount(card);
 
       // Auto-save after adding phrase
       autoSaveGroup(card);
@@ -386,6 +429,10 @@ export function createGroupCard(g: Group): HTMLElement {
   };
 
   addPhraseBtn.addEventListener('click', addPhrase);
+  phraseInput.addEventListener('input', () => {
+    phraseErrorMessage.textContent = '';
+    phraseInput.classList.remove('invalid');
+  });
   phraseInput.addEventListener('keypress', (e) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -396,12 +443,725 @@ export function createGroupCard(g: Group): HTMLElement {
   phraseInputArea.appendChild(phraseInput);
   phraseInputArea.appendChild(addPhraseBtn);
   phrasesSection.appendChild(phraseInputArea);
-  card.appendChild(phrasesSection);
+  phrasesSection.appendChild(phraseErrorMessage);
+  card.appendChild(createPatternSection(card, g));
+
+  // Exclusions: don't highlight the group's phrases inside these ("test" in "A/B test")
+  card.appendChild(createPhraseListSection(card, {
+    className: 'exclude-section',
+    itemClass: 'exclude-phrase',
+    label: "Don't Highlight Inside",
+    placeholder: 'Phrase that cancels overlapping matches, e.g. A/B test',
+    phrases: g.excludePhrases ?? []
+  }));
+  card.appendChild(createProximitySection(card, g));
+  card.appendChild(createActionSection(card, g));
+  card.appendChild(createWeightSection(card, g));
+
+  // Triggers: only highlight on pages that mention one of these, or with a matching title
+  card.appendChild(createPhraseListSection(card, {
+    className: 'trigger-section',
+    itemClass: 'trigger-phrase',
+    label: 'Only On Pages Mentioning',
+    placeholder: 'Phrase anywhere on the page, e.g. job description',
+    phrases: g.triggers?.phrases ?? []
+  }));
+  card.appendChild(createPhraseListSection(card, {
+    className: 'trigger-section',
+    itemClass: 'trigger-title',
+    label: 'Or With Page Title',
+    placeholder: 'Phrase in the page title, e.g. careers',
+    phrases: g.triggers?.titles ?? []
+  }));
 
+  refreshStylePreviews(card);
   return card;
 }
 
 // Helper functions for the new group card design
+const CASE_MODES: CaseMode[] = ['auto', 'sensitive', 'insensitive'];
+
+const CASE_MODE_LABELS: Record<CaseMode, string> = {
+  auto: 'Case: auto (ALL CAPS exact)',
+  sensitive: 'Case: match exactly',
+  insensitive: 'Case: ignore'
+};
+
+const FUZZY_DISTANCES = [0, 1, 2, 3];
+
+const FUZZY_DISTANCE_LABELS: Record<number, string> = {
+  0: 'Typos: off',
+  1: 'Typos: 1',
+  2: 'Typos: 2',
+  3: 'Typos: 3'
+};
+
+const PROXIMITY_SCOPES: ProximityScope[] = ['words', 'element'];
+
+const PROXIMITY_SCOPE_LABELS: Record<ProximityScope, string> = {
+  words: 'within N words',
+  element: 'in the same element'
+};
+
+const DEFAULT_PROXIMITY_WORDS = 20;
+
+// Short labels for the per-phrase override toggle ('' means "use the group setting")
+const PHRASE_CASE_LABELS: Record<CaseMode, string> = {
+  auto: 'Aa?',
+  sensitive: 'Aa',
+  insensitive: 'aa'
+};
+
+function createPhraseItem(card: HTMLElement, phrase: string, caseMode: CaseMode | undefined): HTMLElement {
+  // Flag regex phrases that the matcher will skip (e.g. imported from a config file)
+  const phraseError = regexPhraseError(card, phrase);
+  const phraseItem = createElement('span', {
+    className: `phrase-item${phraseError ? ' invalid' : ''}`,
+    ...(phraseError ? { attributes: { title: phraseError } } : {})
+  });
+  phraseItem.appendChild(createElement('span', { className: 'phrase-text', textContent: phrase }));
+
+  // Per-phrase case override: cycles group default -> auto -> exact -> ignore
+  const caseToggle = createElement('button', { className: 'phrase-case-toggle' });
+  const showCaseMode = (mode: CaseMode | undefined) => {
+    if (mode) {
+      phraseItem.setAttribute('data-case-mode', mode);
+    } else {
+      phraseItem.removeAttribute('data-case-mode');
+    }
+    caseToggle.textContent = mode ? PHRASE_CASE_LABELS[mode] : 'Aa';
+    caseToggle.classList.toggle('active', mode !== undefined);
+    caseToggle.title = mode
+      ? `${CASE_MODE_LABELS[mode]} (click to change)`
+      : 'Case: group default (click to override)';
+  };
+  showCaseMode(caseMode);
+  caseToggle.addEventListener('click', () => {
+    const current = phraseItem.getAttribute('data-case-mode') as CaseMode | null;
+    const next = current === null ? CASE_MODES[0] : CASE_MODES[CASE_MODES.indexOf(current) + 1];
+    showCaseMode(next);
+    autoSaveGroup(card);
+  });
+  phraseItem.appendChild(caseToggle);
+
+  const deleteBtn = createElement('button', {
+    textContent: '×',
+    className: 'phrase-delete'
+  });
+  deleteBtn.addEventListener('click', () => {
+    phraseItem.remove();
+    updatePhraseCount(card);
+    // Proximity rules and weights only make sense for the group's own phrases
+    card.querySelectorAll('.proximity-rule, .phrase-weight').forEach(rule => {
+      if (rule.getAttribute('data-phrase') === phrase) rule.remove();
+    });
+    // Auto-save after deleting phrase
+    autoSaveGroup(card);
+  });
+  phraseItem.appendChild(deleteBtn);
+
+  return phraseItem;
+}
+
+function usesRegex(card: HTMLElement): boolean {
+  const useRegexInput = card.querySelector('.edit-group-use-regex') as HTMLInputElement;
+  return useRegexInput?.checked ?? false;
+}
+
+// Only groups with regex turned on read /pattern/flags phrases as regular expressions
+function regexPhraseError(card: HTMLElement, phrase: string): string | null {
+  return usesRegex(card) ? validateRegexPhrase(phrase) : null;
+}
+
+// Re-flag phrases the matcher will skip after the group's regex option changes
+function refreshRegexErrors(card: HTMLElement): void {
+  card.querySelectorAll('.phrase-item:not(.proximity-rule):not(.phrase-weight)').forEach(item => {
+    const error = regexPhraseError(card, item.querySelector('.phrase-text')?.textContent || '');
+    item.classList.toggle('invalid', error !== null);
+    if (error) {
+      item.setAttribute('title', error);
+    } else {
+      item.removeAttribute('title');
+    }
+  });
+}
+
+function updatePhraseCount(card: HTMLElement) {
+  const count = card.querySelectorAll('.phrases-display .phrase-item').length;
+  const countSpan = card.querySelector('.phrases-count') as HTMLElement;
+  if (countSpan) {
+    countSpan.textContent = `${count} phrase${count !== 1 ? 's' : ''}`;
+  }
+}
+
+// Collect phrases and their case overrides from the card's phrase tags
+function collectPhrases(card: HTMLElement): { phrases: string[]; phraseCaseModes: Record<string, CaseMode> } {
+  const phrases: string[] = [];
+  const phraseCaseModes: Record<string, CaseMode> = {};
+
+  card.querySelectorAll('.phrases-display .phrase-item').forEach(tag => {
+    const text = (tag.querySelector('.phrase-text')?.textContent || '').trim();
+    if (!text) return;
+    phrases.push(text);
+
+    const caseMode = tag.getAttribute('data-case-mode') as CaseMode | null;
+    if (caseMode) {
+      phraseCaseModes[text] = caseMode;
+    }
+  });
+
+  return { phrases, phraseCaseModes };
+}
+
+// Built-in patterns as chips that toggle on click
+function createPatternSection(card: HTMLElement, g: Group): HTMLElement {
+  const container = createElement('div', { className: 'pattern-section' });
+  const header = createElement('div', { className: 'phrases-header' });
+  header.appendChild(createElement('span', {
+    className: 'phrases-label',
+    textContent: 'Also Highlight'
+  }));
+  container.appendChild(header);
+
+  const chips = createElement('div', { className: 'pattern-chips' });
+  for (const pattern of PATTERN_TYPES) {
+    const selected = g.patterns?.includes(pattern) ?? false;
+    const chip = createElement('button', {
+      className: `pattern-chip${selected ? ' selected' : ''}`,
+      textContent: PATTERN_LABELS[pattern],
+      attributes: {
+        type: 'button',
+        title: `e.g. ${PATTERN_EXAMPLES[pattern]}`,
+        'data-pattern': pattern,
+        'aria-pressed': String(selected)
+      }
+    });
+    chip.addEventListener('click', () => {
+      const nowSelected = chip.classList.toggle('selected');
+      chip.setAttribute('aria-pressed', String(nowSelected));
+      autoSaveGroup(card);
+    });
+    chips.appendChild(chip);
+  }
+  container.appendChild(chips);
+  return container;
+}
+
+function collectPatterns(card: HTMLElement): PatternType[] {
+  return Array.from(card.querySelectorAll('.pattern-chip.selected'))
+    .map(chip => chip.getAttribute('data-pattern') as PatternType);
+}
+
+// A section with its own list of phrases, such as exclusions or triggers. Items get
+// itemClass so collectPhraseList can read them back
+function createPhraseListSection(
+  card: HTMLElement,
+  section: { className: string; itemClass: string; label: string; placeholder: string; phrases: string[] }
+): HTMLElement {
+  const container = createElement('div', { className: `phrase-list-section ${section.className}` });
+  const header = createElement('div', { className: 'phrases-header' });
+  header.appendChild(createElement('span', {
+    className: 'phrases-label',
+    textContent: section.label
+  }));
+  container.appendChild(header);
+
+  const listDisplay = createElement('div', { className: 'phrase-list' });
+  section.phrases.forEach(phrase => {
+    listDisplay.appendChild(createPhraseListItem(card, section.itemClass, phrase));
+  });
+  container.appendChild(listDisplay);
+
+  const inputArea = createElement('div', { className: 'phrase-input-area' });
+  const listInput = createElement('input', {
+    attributes: { type: 'text', placeholder: section.placeholder }
+  });
+  const addBtn = createElement('button', {
+    textContent: 'Add',
+    className: 'btn btn-secondary'
+  });
+  const errorMessage = createElement('div', { className: 'phrase-error' });
+
+  const addListPhrase = () => {
+    const value = listInput.value.trim();
+
+    const error = regexPhraseError(card, value);
+    if (error) {
+      errorMessage.textContent = error;
+      listInput.classList.add('invalid');
+      return;
+    }
+
+    if (value) {
+      listDisplay.appendChild(createPhraseListItem(card, section.itemClass, value));
+      listInput.value = '';
+      autoSaveGroup(card);
+    }
+  };
+
+  addBtn.addEventListener('click', addListPhrase);
+  listInput.addEventListener('input', () => {
+    errorMessage.textContent = '';
+    listInput.classList.remove('invalid');
+  });
+  listInput.addEventListener('keypress', (e) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      addListPhrase();
+    }
+  });
+
+  inputArea.appendChild(listInput);
+  inputArea.appendChild(addBtn);
+  container.appendChild(inputArea);
+  container.appendChild(errorMessage);
+  return container;
+}
+
+function createPhraseListItem(card: HTMLElement, itemClass: string, phrase: string): HTMLElement {
+  const phraseError = regexPhraseError(card, phrase);
+  const phraseItem = createElement('span', {
+    className: `phrase-item ${itemClass}${phraseError ? ' invalid' : ''}`,
+    ...(phraseError ? { attributes: { title: phraseError } } : {})
+  });
+  phraseItem.appendChild(createElement('span', { className: 'phrase-text', textContent: phrase }));
+
+  const deleteBtn = createElement('button', {
+    textContent: '×',
+    className: 'phrase-delete'
+  });
+  deleteBtn.addEventListener('click', () => {
+    phraseItem.remove();
+    autoSaveGroup(card);
+  });
+  phraseItem.appendChild(deleteBtn);
+
+  return phraseItem;
+}
+
+function collectPhraseList(card: HTMLElement, itemClass: string): string[] {
+  return Array.from(card.querySelectorAll(`.${itemClass} .phrase-text`))
+    .map(text => (text.textContent || '').trim())
+    .filter(phrase => phrase !== '');
+}
+
+// Only store triggers that have phrases or title patterns
+function withTriggers(phrases: string[], titles: string[]): Pick<Group, 'triggers'> {
+  if (phrases.length === 0 && titles.length === 0) return {};
+  return {
+    triggers: {
+      ...(phrases.length > 0 ? { phrases } : {}),
+      ...(titles.length > 0 ? { titles } : {}),
+    }
+  };
+}
+
+// Proximity rules section: only highlight a phrase when another phrase is close to it
+function createProximitySection(card: HTMLElement, g: Group): HTMLElement {
+  const section = createElement('div', { className: 'proximity-section' });
+  const header = createElement('div', { className: 'phrases-header' });
+  header.appendChild(createElement('span', {
+    className: 'phrases-label',
+    textContent: 'Only Highlight When Nearby'
+  }));
+  section.appendChild(header);
+
+  const rulesDisplay = createElement('div', { className: 'proximity-rules' });
+  (g.proximityRules ?? []).forEach(rule => {
+    rulesDisplay.appendChild(createProximityRuleItem(card, rule));
+  });
+  section.appendChild(rulesDisplay);
+
+  const inputArea = createElement('div', { className: 'phrase-input-area proximity-input-area' });
+  const phraseInput = createElement('input', {
+    className: 'proximity-phrase',
+    attributes: { type: 'text', placeholder: 'Phrase, e.g. remote' }
+  });
+  const nearInput = createElement('input', {
+    className: 'proximity-near',
+    attributes: { type: 'text', placeholder: 'Only near, e.g. US only' }
+  });
+  const scopeSelect = createElement('select', { className: 'proximity-scope' });
+  PROXIMITY_SCOPES.forEach(scope => {
+    scopeSelect.appendChild(createElement('option', {
+      textContent: PROXIMITY_SCOPE_LABELS[scope],
+      attributes: { value: scope }
+    }));
+  });
+  const wordsInput = createElement('input', {
+    className: 'proximity-words',
+    attributes: { type: 'number', min: '1', value: String(DEFAULT_PROXIMITY_WORDS), title: 'Most words allowed in between' }
+  });
+  scopeSelect.addEventListener('change', () => {
+    wordsInput.hidden = scopeSelect.value !== 'words';
+  });
+  const addRuleBtn = createElement('button', {
+    textContent: 'Add Rule',
+    className: 'btn btn-secondary'
+  });
+  const ruleErrorMessage = createElement('div', { className: 'phrase-error' });
+
+  const addRule = () => {
+    const rule: ProximityRule = {
+      phrase: phraseInput.value.trim(),
+      near: nearInput.value.trim(),
+      scope: scopeSelect.value as ProximityScope,
+      ...(scopeSelect.value === 'words' ? { words: Number(wordsInput.value) } : {}),
+    };
+
+    const error = proximityRuleError(rule, collectPhrases(card).phrases, usesRegex(card));
+    if (error) {
+      ruleErrorMessage.textContent = error;
+      return;
+    }
+
+    rulesDisplay.appendChild(createProximityRuleItem(card, rule));
+    phraseInput.value = '';
+    nearInput.value = '';
+    autoSaveGroup(card);
+  };
+
+  addRuleBtn.addEventListener('click', addRule);
+  [phraseInput, nearInput, wordsInput].forEach(input => {
+    input.addEventListener('input', () => {
+      ruleErrorMessage.textContent = '';
+    });
+    input.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        addRule();
+      }
+    });
+  });
+
+  inputArea.appendChild(phraseInput);
+  inputArea.appendChild(nearInput);
+  inputArea.appendChild(scopeSelect);
+  inputArea.appendChild(wordsInput);
+  inputArea.appendChild(addRuleBtn);
+  section.appendChild(inputArea);
+  section.appendChild(ruleErrorMessage);
+  return section;
+}
+
+function proximityRuleError(rule: ProximityRule, phrases: string[], useRegex: boolean): string | null {
+  if (!rule.phrase || !rule.near) return 'Enter a phrase and the phrase it must be near';
+  if (!phrases.includes(rule.phrase)) return `Add "${rule.phrase}" to this group's phrases first`;
+  if (rule.scope === 'words' && !(Number.isInteger(rule.words) && rule.words! > 0)) {
+    return 'Number of words must be a whole number above 0';
+  }
+  return useRegex ? validateRegexPhrase(rule.near) : null;
+}
+
+function describeProximityRule(rule: ProximityRule): string {
+  return rule.scope === 'words'
+    ? `"${rule.phrase}" within ${rule.words} word${rule.words !== 1 ? 's' : ''} of "${rule.near}"`
+    : `"${rule.phrase}" in the same element as "${rule.near}"`;
+}
+
+function createProximityRuleItem(card: HTMLElement, rule: ProximityRule): HTMLElement {
+  const ruleItem = createElement('span', {
+    className: 'phrase-item proximity-rule',
+    attributes: {
+      'data-phrase': rule.phrase,
+      'data-near': rule.near,
+      'data-scope': rule.scope,
+      ...(rule.words !== undefined ? { 'data-words': String(rule.words) } : {})
+    }
+  });
+  ruleItem.appendChild(createElement('span', { className: 'phrase-text', textContent: describeProximityRule(rule) }));
+
+  const deleteBtn = createElement('button', {
+    textContent: '×',
+    className: 'phrase-delete'
+  });
+  deleteBtn.addEventListener('click', () => {
+    ruleItem.remove();
+    autoSaveGroup(card);
+  });
+  ruleItem.appendChild(deleteBtn);
+
+  return ruleItem;
+}
+
+// Collect proximity rules from the card's rule tags
+function collectProximityRules(card: HTMLElement): ProximityRule[] {
+  return Array.from(card.querySelectorAll('.proximity-rule')).map(item => {
+    const words = item.getAttribute('data-words');
+    return {
+      phrase: item.getAttribute('data-phrase') || '',
+      near: item.getAttribute('data-near') || '',
+      scope: (item.getAttribute('data-scope') || 'element') as ProximityScope,
+      ...(words !== null ? { words: Number(words) } : {}),
+    };
+  });
+}
+
+// Style section: how matches are drawn, with a preview of every style to pick from
+function createStyleSection(card: HTMLElement, g: Group): HTMLElement {
+  const section = createElement('div', { className: 'style-section' });
+  const header = createElement('div', { className: 'phrases-header' });
+  header.appendChild(createElement('span', {
+    className: 'phrases-label',
+    textContent: 'Highlight Style'
+  }));
+  section.appendChild(header);
+
+  const onChange = () => {
+    showStyleSettings(card);
+    refreshStylePreviews(card);
+    autoSaveGroup(card);
+  };
+
+  const options = createElement('div', { className: 'style-options' });
+  for (const type of HIGHLIGHT_STYLE_TYPES) {
+    const selected = (g.style?.type ?? 'fill') === type;
+    const option = createElement('button', {
+      className: `style-option${selected ? ' selected' : ''}`,
+      attributes: { type: 'button', 'data-style': type, 'aria-pressed': String(selected) }
+    });
+    option.appendChild(createElement('span', { className: 'style-sample', textContent: HIGHLIGHT_STYLE_LABELS[type] }));
+    option.addEventListener('click', () => {
+      options.querySelectorAll('.style-option').forEach(other => {
+        other.classList.toggle('selected', other === option);
+        other.setAttribute('aria-pressed', String(other === option));
+      });
+      onChange();
+    });
+    options.appendChild(option);
+  }
+  section.appendChild(options);
+
+  // Settings for some of the styles, shown when one of them is picked
+  const settings = createElement('div', { className: 'style-settings' });
+  const thicknessLabel = createElement('label', { className: 'style-setting', attributes: { 'data-styles': 'underline outline' } });
+  thicknessLabel.appendChild(createText('Thickness '));
+  const thicknessInput = createElement('input', {
+    className: 'edit-group-style-thickness',
+    attributes: {
+      type: 'number',
+      min: '1',
+      max: String(MAX_HIGHLIGHT_THICKNESS),
+      value: String(g.style?.thickness ?? DEFAULT_HIGHLIGHT_THICKNESS)
+    }
+  });
+  thicknessLabel.appendChild(thicknessInput);
+  settings.appendChild(thicknessLabel);
+
+  const wavyLabel = createElement('label', { className: 'style-setting', attributes: { 'data-styles': 'underline' } });
+  const wavyInput = createElement('input', {
+    className: 'edit-group-style-wavy',
+    attributes: { type: 'checkbox', ...(g.style?.wavy ? { checked: '' } : {}) }
+  });
+  wavyLabel.appendChild(wavyInput);
+  wavyLabel.appendChild(createText(' Wavy'));
+  settings.appendChild(wavyLabel);
+
+  const iconLabel = createElement('label', { className: 'style-setting', attributes: { 'data-styles': 'badge' } });
+  iconLabel.appendChild(createText('Icon '));
+  const iconInput = createElement('input', {
+    className: 'edit-group-style-icon',
+    attributes: { type: 'text', maxlength: '8', placeholder: DEFAULT_HIGHLIGHT_ICON, value: g.style?.icon ?? '', title: 'An emoji or character, e.g. ★' }
+  });
+  iconLabel.appendChild(iconInput);
+  settings.appendChild(iconLabel);
+
+  [thicknessInput, wavyInput, iconInput].forEach(input => input.addEventListener('change', onChange));
+  iconInput.addEventListener('input', () => refreshStylePreviews(card));
+  section.appendChild(settings);
+
+  showStyleSettings(card, section);
+  return section;
+}
+
+function showStyleSettings(card: HTMLElement, section: ParentNode = card) {
+  const type = section.querySelector('.style-option.selected')?.getAttribute('data-style') || 'fill';
+  section.querySelectorAll('.style-setting').forEach(setting => {
+    (setting as HTMLElement).hidden = !(setting.getAttribute('data-styles') || '').split(' ').includes(type);
+  });
+}
+
+// The picked style and its settings, or undefined for the default filled background
+function collectHighlightStyle(card: HTMLElement): HighlightStyle | undefined {
+  const type = (card.querySelector('.style-option.selected')?.getAttribute('data-style') || 'fill') as HighlightStyleType;
+  const thicknessInput = card.querySelector('.edit-group-style-thickness') as HTMLInputElement | null;
+  const wavyInput = card.querySelector('.edit-group-style-wavy') as HTMLInputElement | null;
+  const iconInput = card.querySelector('.edit-group-style-icon') as HTMLInputElement | null;
+  const thickness = Math.min(Math.max(Math.round(Number(thicknessInput?.value) || DEFAULT_HIGHLIGHT_THICKNESS), 1), MAX_HIGHLIGHT_THICKNESS);
+  const icon = iconInput?.value.trim() ?? '';
+
+  if (type === 'fill') return undefined;
+  return {
+    type,
+    ...((type === 'underline' || type === 'outline') && thickness !== DEFAULT_HIGHLIGHT_THICKNESS ? { thickness } : {}),
+    ...(type === 'underline' && wavyInput?.checked ? { wavy: true } : {}),
+    ...(type === 'badge' && icon && icon !== DEFAULT_HIGHLIGHT_ICON ? { icon } : {}),
+  };
+}
+
+const GROUP_ACTIONS: GroupAction[] = ['highlight', 'outline-container', 'dim', 'blur', 'hide'];
+
+const GROUP_ACTION_LABELS: Record<GroupAction, string> = {
+  'highlight': 'Just highlight',
+  'outline-container': 'Outline the item',
+  'dim': 'Dim the item',
+  'blur': 'Blur the item',
+  'hide': 'Hide the item'
+};
+
+// Action section: what happens to the item around a match (a post, a feed item), for
+// groups that filter a page rather than point things out
+function createActionSection(card: HTMLElement, g: Group): HTMLElement {
+  const section = createElement('div', { className: 'action-section' });
+  const header = createElement('div', { className: 'phrases-header' });
+  header.appendChild(createElement('span', {
+    className: 'phrases-label',
+    textContent: 'When Found'
+  }));
+  const actionSelect = createElement('select', {
+    className: 'edit-group-action',
+    attributes: { title: 'What happens to the item a match is in (set on the domain, or else the paragraph). Hidden items get a "Show anyway" button' }
+  });
+  GROUP_ACTIONS.forEach(action => {
+    actionSelect.appendChild(createElement('option', {
+      textContent: GROUP_ACTION_LABELS[action],
+      attributes: { value: action, ...((g.action || 'highlight') === action ? { selected: '' } : {}) }
+    }));
+  });
+  actionSelect.addEventListener('change', () => autoSaveGroup(card));
+  header.appendChild(actionSelect);
+  section.appendChild(header);
+  return section;
+}
+
+function formatWeight(weight: number): string {
+  return weight > 0 ? `+${weight}` : String(weight);
+}
+
+// Weights section: what each match adds to a page region's score, for domains with
+// score badges. The group's weight counts for all of its matches unless a phrase has its own
+function createWeightSection(card: HTMLElement, g: Group): HTMLElement {
+  const section = createElement('div', { className: 'weight-section' });
+  const header = createElement('div', { className: 'phrases-header' });
+  header.appendChild(createElement('span', {
+    className: 'phrases-label',
+    textContent: 'Score Weight'
+  }));
+  const groupWeightInput = createElement('input', {
+    className: 'edit-group-weight',
+    attributes: {
+      type: 'number',
+      step: '1',
+      value: String(g.weight ?? 0),
+      title: 'Added to the score of a page region for each match, on domains with score badges'
+    }
+  });
+  groupWeightInput.addEventListener('change', () => autoSaveGroup(card));
+  header.appendChild(groupWeightInput);
+  section.appendChild(header);
+
+  const weightsDisplay = createElement('div', { className: 'phrase-weights' });
+  Object.entries(g.phraseWeights ?? {}).forEach(([phrase, weight]) => {
+    weightsDisplay.appendChild(createPhraseWeightItem(card, phrase, weight));
+  });
+  section.appendChild(weightsDisplay);
+
+  const inputArea = createElement('div', { className: 'phrase-input-area weight-input-area' });
+  const phraseInput = createElement('input', {
+    className: 'weight-phrase',
+    attributes: { type: 'text', placeholder: 'Phrase with its own weight, e.g. unpaid' }
+  });
+  const weightInput = createElement('input', {
+    className: 'weight-value',
+    attributes: { type: 'number', step: '1', value: '1', title: 'Weight of this phrase' }
+  });
+  const addWeightBtn = createElement('button', {
+    textContent: 'Set Weight',
+    className: 'btn btn-secondary'
+  });
+  const weightErrorMessage = createElement('div', { className: 'phrase-error' });
+
+  const addWeight = () => {
+    const phrase = phraseInput.value.trim();
+    const weight = Number(weightInput.value);
+    if (!phrase) {
+      weightErrorMessage.textContent = 'Enter a phrase and its weight';
+      return;
+    }
+    if (!collectPhrases(card).phrases.includes(phrase)) {
+      weightErrorMessage.textContent = `Add "${phrase}" to this group's phrases first`;
+      return;
+    }
+    if (weightInput.value === '' || !Number.isInteger(weight)) {
+      weightErrorMessage.textContent = 'Weight must be a whole number';
+      return;
+    }
+
+    // Setting a phrase's weight again replaces the old one
+    weightsDisplay.querySelectorAll('.phrase-weight').forEach(item => {
+      if (item.getAttribute('data-phrase') === phrase) item.remove();
+    });
+    weightsDisplay.appendChild(createPhraseWeightItem(card, phrase, weight));
+    phraseInput.value = '';
+    autoSaveGroup(card);
+  };
+
+  addWeightBtn.addEventListener('click', addWeight);
+  [phraseInput, weightInput].forEach(input => {
+    input.addEventListener('input', () => {
+      weightErrorMessage.textContent = '';
+    });
+    input.addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        addWeight();
+      }
+    });
+  });
+
+  inputArea.appendChild(phraseInput);
+  inputArea.appendChild(weightInput);
+  inputArea.appendChild(addWeightBtn);
+  section.appendChild(inputArea);
+  section.appendChild(weightErrorMessage);
+  return section;
+}
+
+function createPhraseWeightItem(card: HTMLElement, phrase: string, weight: number): HTMLElement {
+  const weightItem = createElement('span', {
+    className: `phrase-item phrase-weight${weight < 0 ? ' negative' : ''}`,
+    attributes: { 'data-phrase': phrase, 'data-weight': String(weight) }
+  });
+  weightItem.appendChild(createElement('span', { className: 'phrase-text', textContent: `"${phrase}" ${formatWeight(weight)}` }));
+
+  const deleteBtn = createElement('button', {
+    textContent: '×',
+    className: 'phrase-delete'
+  });
+  deleteBtn.addEventListener('click', () => {
+    weightItem.remove();
+    autoSaveGroup(card);
+  });
+  weightItem.appendChild(deleteBtn);
+
+  return weightItem;
+}
+
+// Collect the group's weight and per-phrase weights, leaving out the 0 default
+function collectWeights(card: HTMLElement): Pick<Group, 'weight' | 'phraseWeights'> {
+  const weightInput = card.querySelector('.edit-group-weight') as HTMLInputElement | null;
+  const weight = Math.trunc(Number(weightInput?.value || 0)) || 0;
+  const phraseWeights: Record<string, number> = {};
+  card.querySelectorAll('.phrase-weight').forEach(item => {
+    phraseWeights[item.getAttribute('data-phrase') || ''] = Number(item.getAttribute('data-weight'));
+  });
+
+  return {
+    ...(weight !== 0 ? { weight } : {}),
+    ...(Object.keys(phraseWeights).length > 0 ? { phraseWeights } : {}),
+  };
+}
+
 async function autoSaveGroup(card: HTMLElement) {
   let id = card.getAttribute('data-id');
   const isNewGroup = !id;
@@ -413,6 +1173,18 @@ async function autoSaveGroup(card: HTMLElement) {
   const lightTextHex = card.querySelector('.edit-group-light-text-hex') as HTMLInputElement;
   const darkBgHex = card.querySelector('.edit-group-dark-bg-hex') as HTMLInputElement;
   const darkTextHex = card.querySelector('.edit-group-dark-text-hex') as HTMLInputElement;
+  const caseModeSelect = card.querySelector('.edit-group-case-mode') as HTMLSelectElement;
+  const caseMode = (caseModeSelect?.value || 'auto') as CaseMode;
+  const useRegex = usesRegex(card);
+  const ignoreAccentsInput = card.querySelector('.edit-group-ignore-accents') as HTMLInputElement;
+  const ignoreAccents = ignoreAccentsInput?.checked ?? false;
+  const matchWordFormsInput = card.querySelector('.edit-group-match-word-forms') as HTMLInputElement;
+  const matchWordForms = matchWordFormsInput?.checked ?? false;
+  const fuzzyDistanceSelect = card.querySelector('.edit-group-fuzzy-distance') as HTMLSelectElement;
+  const fuzzyDistance = Number(fuzzyDistanceSelect?.value || 0);
+  const actionSelect = card.querySelector('.edit-group-action') as HTMLSelectElement;
+  const action = (actionSelect?.value || 'highlight') as GroupAction;
+  const style = collectHighlightStyle(card);
 
   const name = nameInput?.value.trim();
   if (!name) {
@@ -425,12 +1197,12 @@ async function autoSaveGroup(card: HTMLElement) {
     id = crypto.randomUUID();
     card.setAttribute('data-id', id);
 
-    // Collect phrases
-    const phraseTags = card.querySelectorAll('.phrases-display .phrase-item');
-    const phrases = Array.from(phraseTags).map(tag => {
-      const text = tag.querySelector('.phrase-text')?.textContent || '';
-      return text.trim();
-    }).filter(Boolean);
+    const { phrases, phraseCaseModes } = collectPhrases(card);
+    const patterns = collectPatterns(card);
+    const proximityRules = collectProximityRules(card);
+    const weights = collectWeights(card);
+    const excludePhrases = collectPhraseList(card, 'exclude-phrase');
+    const triggers = withTriggers(collectPhraseList(card, 'trigger-phrase'), collectPhraseList(card, 'trigger-title'));
 
     const newGroup: Group = {
       id,
@@ -440,7 +1212,19 @@ async function autoSaveGroup(card: HTMLElement) {
       lightTextColor: lightTextHex?.value || '#000000',
       darkBgColor: darkBgHex?.value || '#3a3a00',
       darkTextColor: darkTextHex?.value || '#ffffff',
+      ...(style ? { style } : {}),
       phrases,
+      ...(patterns.length > 0 ? { patterns } : {}),
+      ...withCaseModes(caseMode, phraseCaseModes),
+      ...(useRegex ? { useRegex } : {}),
+      ...(ignoreAccents ? { ignoreAccents } : {}),
+      ...(matchWordForms ? { matchWordForms } : {}),
+      ...(fuzzyDistance ? { fuzzyDistance } : {}),
+      ...(proximityRules.length > 0 ? { proximityRules } : {}),
+      ...weights,
+      ...(action !== 'highlight' ? { action } : {}),
+      ...(excludePhrases.length > 0 ? { excludePhrases } : {}),
+      ...triggers,
     };
 
     groups.push(newGroup);
@@ -465,25 +1249,55 @@ async function autoSaveGroup(card: HTMLElement) {
   // Store the old name to check if it changes
   const oldName = group.name;
 
-  // Collect phrases
-  const phraseTags = card.querySelectorAll('.phrases-display .phrase-item');
-  const phrases = Array.from(phraseTags).map(tag => {
-    const text = tag.querySelector('.phrase-text')?.textContent || '';
-    return text.trim();
-  }).filter(Boolean);
+  const { phrases, phraseCaseModes } = collectPhrases(card);
+  const patterns = collectPatterns(card);
+  const proximityRules = collectProximityRules(card);
+  const weights = collectWeights(card);
+  const excludePhrases = collectPhraseList(card, 'exclude-phrase');
+  const triggers = withTriggers(collectPhraseList(card, 'trigger-phrase'), collectPhraseList(card, 'trigger-title'));
 
   // Update group in memory
   const index = groups.findIndex(g => g.id === id);
   if (index !== -1) {
+    // Drop stale matching settings before applying the card's current ones
+    const {
+      style: _style,
+      patterns: _patterns,
+      caseMode: _caseMode,
+      phraseCaseModes: _phraseCaseModes,
+      useRegex: _useRegex,
+      ignoreAccents: _ignoreAccents,
+      matchWordForms: _matchWordForms,
+      fuzzyDistance: _fuzzyDistance,
+      proximityRules: _proximityRules,
+      weight: _weight,
+      phraseWeights: _phraseWeights,
+      action: _action,
+      excludePhrases: _excludePhrases,
+      triggers: _triggers,
+      ...rest
+    } = groups[index];
     groups[index] = {
-      ...groups[index],
+      ...rest,
       name,
       enabled: toggleInput?.checked ?? group.enabled,
       lightBgColor: lightBgHex?.value || group.lightBgColor,
       lightTextColor: lightTextHex?.value || group.lightTextColor,
       darkBgColor: darkBgHex?.value || group.darkBgColor,
       darkTextColor: darkTextHex?.value || group.darkTextColor,
+      ...(style ? { style } : {}),
       phrases,
+      ...(patterns.length > 0 ? { patterns } : {}),
+      ...withCaseModes(caseMode, phraseCaseModes),
+      ...(useRegex ? { useRegex } : {}),
+      ...(ignoreAccents ? { ignoreAccents } : {}),
+      ...(matchWordForms ? { matchWordForms } : {}),
+      ...(fuzzyDistance ? { fuzzyDistance } : {}),
+      ...(proximityRules.length > 0 ? { proximityRules } : {}),
+      ...weights,
+      ...(action !== 'highlight' ? { action } : {}),
+      ...(excludePhrases.length > 0 ? { excludePhrases } : {}),
+      ...triggers,
     };
   }
 
@@ -523,6 +1337,91 @@ async function autoSaveGroup(card: HTMLElement) {
   debugLog('Settings', 'autoSaveGroup() complete - storage.set() finished');
 }
 
+// A checkbox in the phrases header for a group-wide matching option
+function createPhrasesOption(
+  card: HTMLElement,
+  option: { className: string; label: string; title: string; checked: boolean }
+): HTMLElement {
+  const label = createElement('label', {
+    className: 'phrases-option',
+    attributes: { title: option.title }
+  });
+  const input = createElement('input', {
+    className: option.className,
+    attributes: { type: 'checkbox', ...(option.checked ? { checked: '' } : {}) }
+  });
+  input.addEventListener('change', () => autoSaveGroup(card));
+  label.appendChild(input);
+  label.appendChild(createText(option.label));
+  return label;
+}
+
+// Only store non-default case settings, keeping saved groups compact
+function withCaseModes(caseMode: CaseMode, phraseCaseModes: Record<string, CaseMode>): Pick<Group, 'caseMode' | 'phraseCaseModes'> {
+  return {
+    ...(caseMode !== 'auto' ? { caseMode } : {}),
+    ...(Object.keys(phraseCaseModes).length > 0 ? { phraseCaseModes } : {}),
+  };
+}
+
+// Id of the group card being dragged, if any
+let draggedGroupId: string | null = null;
+
+function setupGroupDragAndDrop(card: HTMLElement, id: string) {
+  const clearDropIndicator = () => card.classList.remove('drop-before', 'drop-after');
+  // Drop in the lower half of a card to place the dragged group after it
+  const isAfter = (e: DragEvent) => {
+    const rect = card.getBoundingClientRect();
+    return e.clientY > rect.top + rect.height / 2;
+  };
+
+  card.addEventListener('dragstart', (e) => {
+    draggedGroupId = id;
+    card.classList.add('dragging');
+    e.dataTransfer?.setData('text/plain', id);
+    if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+  });
+
+  card.addEventListener('dragend', () => {
+    draggedGroupId = null;
+    card.classList.remove('dragging');
+    card.removeAttribute('draggable');
+  });
+
+  card.addEventListener('dragover', (e) => {
+    if (!draggedGroupId || draggedGroupId === id) return;
+    e.preventDefault();
+    const after = isAfter(e);
+    card.classList.toggle('drop-before', !after);
+    card.classList.toggle('drop-after', after);
+  });
+
+  card.addEventListener('dragleave', clearDropIndicator);
+
+  card.addEventListener('drop', (e) => {
+    if (!draggedGroupId || draggedGroupId === id) return;
+    e.preventDefault();
+    clearDropIndicator();
+    moveGroup(draggedGroupId, id, isAfter(e));
+  });
+}
+
+// Move a group before or after another one, changing its priority
+async function moveGroup(id: string, targetId: string, placeAfter: boolean) {
+  const from = groups.findIndex(g => g.id === id);
+  if (from === -1 || !groups.some(g => g.id === targetId)) return;
+
+  // Reorder in place - settings.ts shares this array
+  const [moved] = groups.splice(from, 1);
+  const to = groups.findIndex(g => g.id === targetId);
+  groups.splice(placeAfter ? to + 1 : to, 0, moved);
+
+  debugLog('Settings', 'Reordered groups', { groupId: id, order: groups.map(g => g.name) });
+
+  await saveGroups(groups);
+  render();
+}
+
 async function deleteGroup(id: string) {
   const group = groups.find(g => g.id === id);
   if (!group) return;
@@ -547,6 +1446,7 @@ function switchPreviewMode(card: HTMLElement, mode: 'light' | 'dark', lightBtn:
     const previewMode = preview.getAttribute('data-mode');
     preview.classList.toggle('active', previewMode === mode);
   });
+  refreshStylePreviews(card);
 }
 
 function toggleColorEdit(preview: HTMLElement) {
@@ -557,12 +1457,29 @@ function toggleColorEdit(preview: HTMLElement) {
   }
 }
 
-function updatePreviewColors(preview: HTMLElement, bgColor: string, textColor: string) {
-  const sample = preview.querySelector('.highlight-sample') as HTMLElement;
-  if (sample) {
-    sample.style.background = bgColor;
-    sample.style.color = textColor;
-  }
+// The colors being edited for a mode, so previews follow the color inputs as they change
+function modeColors(card: HTMLElement, mode: string): { bgColor: string; textColor: string } {
+  const bgInput = card.querySelector(`.edit-group-${mode}-bg-color`) as HTMLInputElement | null;
+  const textInput = card.querySelector(`.edit-group-${mode}-text-color`) as HTMLInputElement | null;
+  return { bgColor: bgInput?.value || '#ffff00', textColor: textInput?.value || '#000000' };
+}
+
+// Draw the light and dark previews in the group's style, and each style option in the
+// colors of the mode being previewed
+function refreshStylePreviews(card: HTMLElement) {
+  const highlightStyle = collectHighlightStyle(card);
+  card.querySelectorAll('.mode-preview').forEach(preview => {
+    const sample = preview.querySelector('.highlight-sample') as HTMLElement | null;
+    const mode = preview.getAttribute('data-mode') || 'light';
+    if (sample) applyHighlightStyle(sample, { ...modeColors(card, mode), highlightStyle });
+  });
+
+  const activeMode = card.querySelector('.mode-preview.active')?.getAttribute('data-mode') || 'light';
+  card.querySelectorAll('.style-option').forEach(option => {
+    const sample = option.querySelector('.style-sample') as HTMLElement | null;
+    const type = option.getAttribute('data-style') as HighlightStyleType;
+    if (sample) applyHighlightStyle(sample, { ...modeColors(card, activeMode), highlightStyle: { ...highlightStyle, type } });
+  });
 }
 
 
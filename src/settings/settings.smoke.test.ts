@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import JSON5 from 'json5';
-import type { Group, Domain } from './types';
+import type { Group, Domain, HighlightStyle } from './types';
 
 /**
  * Smoke test that exercises the same code paths as settings.ts button handlers.
@@ -29,6 +29,31 @@ const testDomains: Domain[] = [{
   mode: 'light',
 }];
 
+// importExport saves through storage; these helpers only need its parsing and validation
+async function loadImportExport() {
+  vi.doMock('./utils/storage', () => ({
+    saveGroups: vi.fn(),
+    saveDomains: vi.fn(),
+  }));
+  return import('./utils/importExport');
+}
+
+// Export the given groups and domains, then import the exported file back
+async function roundTrip(groups: Group[], domains: Domain[] = testDomains) {
+  const { exportData, importData } = await loadImportExport();
+  const exported = JSON5.parse(await exportData(groups, domains));
+  return { exported, imported: await importData(JSON5.stringify(exported)) };
+}
+
+// Import the exported test data with fields of its group and domain replaced
+async function importWith(groupFields: Record<string, unknown>, domainFields: Record<string, unknown> = {}) {
+  const { exportData, importData } = await loadImportExport();
+  const exported = JSON5.parse(await exportData(testGroups, testDomains));
+  Object.assign(exported.groups[0], groupFields);
+  Object.assign(exported.domains[0], domainFields);
+  return importData(JSON5.stringify(exported));
+}
+
 describe('settings.ts smoke tests', () => {
   beforeEach(() => {
     vi.resetModules();
@@ -66,6 +91,321 @@ describe('settings.ts smoke tests', () => {
     await expect(exportData()).rejects.toThrow();
   });
 
+  it('import/export round trip: keeps group and per-phrase case modes', async () => {
+    vi.doMock('./utils/storage', () => ({
+      saveGroups: vi.fn(),
+      saveDomains: vi.fn(),
+    }));
+
+    const { exportData, importData } = await import('./utils/importExport');
+
+    const groups: Group[] = [{
+      ...testGroups[0],
+      phrases: ['iOS', 'IT'],
+      caseMode: 'sensitive',
+      phraseCaseModes: { IT: 'insensitive' },
+    }];
+
+    const exported = JSON5.parse(await exportData(groups, testDomains));
+    expect(exported.groups[0].caseMode).toBe('sensitive');
+    expect(exported.groups[0].phraseCaseModes).toEqual({ IT: 'insensitive' });
+
+    const result = await importData(JSON5.stringify(exported));
+    expect(result.success).toBe(true);
+    expect(result.groups![0].caseMode).toBe('sensitive');
+    expect(result.groups![0].phraseCaseModes).toEqual({ IT: 'insensitive' });
+  });
+
+  it('import/export round trip: keeps the ignore-accents option', async () => {
+    const { exported, imported } = await roundTrip([{ ...testGroups[0], phrases: ['resume'], ignoreAccents: true }]);
+    expect(exported.groups[0].ignoreAccents).toBe(true);
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].ignoreAccents).toBe(true);
+
+    // Off is the default, so it's left out of the file
+    const plain = await roundTrip(testGroups);
+    expect(plain.exported.groups[0]).not.toHaveProperty('ignoreAccents');
+    expect(plain.imported.groups![0].ignoreAccents).toBeUndefined();
+  });
+
+  it('import validation: rejects an ignoreAccents value that is not true or false', async () => {
+    expect((await importWith({ ignoreAccents: false })).success).toBe(true);
+
+    const result = await importWith({ ignoreAccents: 'yes' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid group "Test Group": ignoreAccents must be true or false');
+  });
+
+  it('import/export round trip: keeps the word-forms option', async () => {
+    const { exported, imported } = await roundTrip([{ ...testGroups[0], phrases: ['review'], matchWordForms: true }]);
+    expect(exported.groups[0].matchWordForms).toBe(true);
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].matchWordForms).toBe(true);
+
+    const plain = await roundTrip(testGroups);
+    expect(plain.exported.groups[0]).not.toHaveProperty('matchWordForms');
+    expect(plain.imported.groups![0].matchWordForms).toBeUndefined();
+  });
+
+  it('import validation: rejects a matchWordForms value that is not true or false', async () => {
+    const result = await importWith({ matchWordForms: 1 });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid group "Test Group": matchWordForms must be true or false');
+  });
+
+  it('import/export round trip: keeps the typo tolerance', async () => {
+    const { exported, imported } = await roundTrip([{ ...testGroups[0], phrases: ['kubernetes'], fuzzyDistance: 2 }]);
+    expect(exported.groups[0].fuzzyDistance).toBe(2);
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].fuzzyDistance).toBe(2);
+
+    const plain = await roundTrip(testGroups);
+    expect(plain.exported.groups[0]).not.toHaveProperty('fuzzyDistance');
+    expect(plain.imported.groups![0].fuzzyDistance).toBeUndefined();
+  });
+
+  it('import validation: rejects a fuzzyDistance outside 0 to 3', async () => {
+    expect((await importWith({ fuzzyDistance: 3 })).success).toBe(true);
+
+    for (const fuzzyDistance of [4, -1, 1.5, '1']) {
+      const result = await importWith({ fuzzyDistance });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid group "Test Group": fuzzyDistance must be a whole number from 0 to 3');
+    }
+  });
+
+  it('import/export round trip: keeps matching across inline elements on a domain', async () => {
+    const { exported, imported } = await roundTrip(testGroups, [{ ...testDomains[0], matchAcrossElements: true }]);
+    expect(exported.domains[0].matchAcrossElements).toBe(true);
+    expect(imported.success).toBe(true);
+    expect(imported.domains![0].matchAcrossElements).toBe(true);
+    expect(imported.domains![0].matchMode).toBe('all-subdomains');
+
+    const plain = await roundTrip(testGroups);
+    expect(plain.exported.domains[0]).not.toHaveProperty('matchAcrossElements');
+    expect(plain.imported.domains![0].matchAcrossElements).toBeUndefined();
+  });
+
+  it('import validation: rejects a matchAcrossElements value that is not true or false', async () => {
+    const result = await importWith({}, { matchAcrossElements: 'always' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid domain "example.com": matchAcrossElements must be true or false');
+  });
+
+  it('import/export round trip: keeps the overlap strategy, leaving out the default', async () => {
+    const { exported, imported } = await roundTrip(testGroups, [{ ...testDomains[0], overlapStrategy: 'nested' }]);
+    expect(exported.domains[0].overlapStrategy).toBe('nested');
+    expect(imported.success).toBe(true);
+    expect(imported.domains![0].overlapStrategy).toBe('nested');
+
+    const plain = await roundTrip(testGroups, [{ ...testDomains[0], overlapStrategy: 'priority-wins' }]);
+    expect(plain.exported.domains[0]).not.toHaveProperty('overlapStrategy');
+    expect(plain.imported.domains![0].overlapStrategy).toBeUndefined();
+  });
+
+  it('import validation: rejects an unknown overlap strategy', async () => {
+    expect((await importWith({}, { overlapStrategy: 'longest-wins' })).success).toBe(true);
+
+    const result = await importWith({}, { overlapStrategy: 'shortest-wins' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid domain "example.com": overlapStrategy must be "priority-wins", "longest-wins", or "nested"');
+  });
+
+  it('import/export round trip: keeps proximity rules', async () => {
+    const proximityRules: Group['proximityRules'] = [
+      { phrase: 'remote', near: 'US only', scope: 'words', words: 10 },
+      { phrase: 'remote', near: 'timezone*', scope: 'element' },
+    ];
+    const { exported, imported } = await roundTrip([{ ...testGroups[0], phrases: ['remote'], proximityRules }]);
+    expect(exported.groups[0].proximityRules).toEqual(proximityRules);
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].proximityRules).toEqual(proximityRules);
+  });
+
+  it('import validation: rejects malformed proximity rules', async () => {
+    const rule = { phrase: 'test phrase', near: 'nearby', scope: 'words', words: 5 };
+    expect((await importWith({ proximityRules: [rule] })).success).toBe(true);
+
+    const malformed: [unknown, string][] = [
+      [{ ...rule, phrase: 'missing' }, 'proximity rule phrase "missing" must be one of the group\'s phrases'],
+      [{ ...rule, near: ' ' }, 'proximity rule for "test phrase" is missing its "near" phrase'],
+      [{ ...rule, scope: 'page' }, 'proximity rule for "test phrase": scope must be "words" or "element"'],
+      [{ ...rule, words: 0 }, 'proximity rule for "test phrase": words must be a whole number above 0'],
+      ['test phrase near nearby', 'proximity rules must be objects'],
+    ];
+    for (const [proximityRule, error] of malformed) {
+      const result = await importWith({ proximityRules: [proximityRule] });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(`Invalid group "Test Group": ${error}`);
+    }
+
+    const notAList = await importWith({ proximityRules: rule });
+    expect(notAList.error).toBe('Invalid group "Test Group": proximityRules must be a list');
+  });
+
+  it('import/export round trip: keeps exclusion phrases', async () => {
+    const excludePhrases = ['JavaScript', 'A/B test', 'test*'];
+    const { exported, imported } = await roundTrip([{ ...testGroups[0], phrases: ['Java', 'test'], excludePhrases }]);
+    expect(exported.groups[0].excludePhrases).toEqual(excludePhrases);
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].excludePhrases).toEqual(excludePhrases);
+
+    const plain = await roundTrip([{ ...testGroups[0], excludePhrases: [] }]);
+    expect(plain.exported.groups[0]).not.toHaveProperty('excludePhrases');
+    expect(plain.imported.groups![0].excludePhrases).toBeUndefined();
+  });
+
+  it('import validation: rejects exclusion phrases that are not a list of phrases', async () => {
+    for (const excludePhrases of ['JavaScript', ['JavaScript', 42]]) {
+      const result = await importWith({ excludePhrases });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid group "Test Group": excludePhrases must be a list of phrases');
+    }
+  });
+
+  it('import/export round trip: keeps page triggers', async () => {
+    const triggers = { phrases: ['job description'], titles: ['/\\bhiring\\b/i', 'careers'] };
+    const { exported, imported } = await roundTrip([{ ...testGroups[0], useRegex: true, triggers }]);
+    expect(exported.groups[0].triggers).toEqual(triggers);
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].triggers).toEqual(triggers);
+
+    // Blank trigger phrases are dropped, and a trigger with nothing left is left out
+    const titlesOnly = await importWith({ triggers: { phrases: [' '], titles: ['careers'] } });
+    expect(titlesOnly.groups![0].triggers).toEqual({ titles: ['careers'] });
+    const empty = await importWith({ triggers: { phrases: [''] } });
+    expect(empty.groups![0].triggers).toBeUndefined();
+  });
+
+  it('import validation: rejects triggers without phrase lists', async () => {
+    for (const triggers of [{ phrases: 'job description' }, { titles: [42] }]) {
+      const result = await importWith({ triggers });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid group "Test Group": triggers must have "phrases" and/or "titles" lists');
+    }
+  });
+
+  it('import/export round trip: keeps a group\'s built-in patterns', async () => {
+    const { exported, imported } = await roundTrip([{ ...testGroups[0], patterns: ['email', 'date'] }]);
+    expect(exported.groups[0].patterns).toEqual(['email', 'date']);
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].patterns).toEqual(['email', 'date']);
+
+    const repeated = await importWith({ patterns: ['salary', 'salary'] });
+    expect(repeated.groups![0].patterns).toEqual(['salary']);
+  });
+
+  it('import validation: rejects unknown patterns', async () => {
+    for (const patterns of [['email', 'phone'], 'email']) {
+      const result = await importWith({ patterns });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid group "Test Group": patterns must be a list of "email", "currency", "salary", "date", "version"');
+    }
+  });
+
+  it('import/export round trip: keeps phrase weights and score badges', async () => {
+    const groups: Group[] = [{ ...testGroups[0], phrases: ['remote', 'unpaid'], weight: 1, phraseWeights: { remote: 3, unpaid: -5 } }];
+    const domains: Domain[] = [{ ...testDomains[0], scoreBadges: { container: '.job-card', goodAt: 3, badAt: -2 } }];
+    const { exported, imported } = await roundTrip(groups, domains);
+    expect(exported.groups[0].weight).toBe(1);
+    expect(exported.groups[0].phraseWeights).toEqual({ remote: 3, unpaid: -5 });
+    expect(exported.domains[0].scoreBadges).toEqual({ container: '.job-card', goodAt: 3, badAt: -2 });
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].weight).toBe(1);
+    expect(imported.groups![0].phraseWeights).toEqual({ remote: 3, unpaid: -5 });
+    expect(imported.domains![0].scoreBadges).toEqual({ container: '.job-card', goodAt: 3, badAt: -2 });
+
+    // Weights for phrases the group doesn't have are dropped
+    const stray = await importWith({ phraseWeights: { 'test phrase': 2, gone: 4 } });
+    expect(stray.groups![0].phraseWeights).toEqual({ 'test phrase': 2 });
+  });
+
+  it('import validation: rejects weights that are not whole numbers', async () => {
+    const groupWeight = await importWith({ weight: 1.5 });
+    expect(groupWeight.error).toBe('Invalid group "Test Group": weight must be a whole number');
+
+    const phraseWeight = await importWith({ phraseWeights: { 'test phrase': 'high' } });
+    expect(phraseWeight.error).toBe('Invalid group "Test Group": weight for phrase "test phrase" must be a whole number');
+  });
+
+  it('import validation: rejects malformed score badges', async () => {
+    const malformed: [unknown, string][] = [
+      ['.job-card', 'scoreBadges must be an object'],
+      [{ container: '' }, 'scoreBadges container must be a CSS selector'],
+      [{ container: '.job-card[' }, 'scoreBadges container must be a CSS selector'],
+      [{ container: '.job-card', goodAt: 'high' }, 'scoreBadges goodAt must be a whole number'],
+      [{ container: '.job-card', goodAt: 1, badAt: 1 }, 'scoreBadges badAt must be below goodAt'],
+    ];
+    for (const [scoreBadges, error] of malformed) {
+      const result = await importWith({}, { scoreBadges });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(`Invalid domain "example.com": ${error}`);
+    }
+  });
+
+  it('import/export round trip: keeps group actions and the domain\'s action container', async () => {
+    const groups: Group[] = [{ ...testGroups[0], phrases: ['promoted'], action: 'hide' }];
+    const domains: Domain[] = [{ ...testDomains[0], actionContainer: 'article.post' }];
+    const { exported, imported } = await roundTrip(groups, domains);
+    expect(exported.groups[0].action).toBe('hide');
+    expect(exported.domains[0].actionContainer).toBe('article.post');
+    expect(imported.success).toBe(true);
+    expect(imported.groups![0].action).toBe('hide');
+    expect(imported.domains![0].actionContainer).toBe('article.post');
+
+    // Highlighting is the default, so it's left out of the file
+    const plain = await roundTrip([{ ...testGroups[0], action: 'highlight' }]);
+    expect(plain.exported.groups[0]).not.toHaveProperty('action');
+    expect(plain.imported.groups![0].action).toBeUndefined();
+  });
+
+  it('import validation: rejects unknown actions and invalid action containers', async () => {
+    const action = await importWith({ action: 'delete' });
+    expect(action.success).toBe(false);
+    expect(action.error).toBe('Invalid group "Test Group": action must be "highlight", "dim", "blur", "hide", or "outline-container"');
+
+    const container = await importWith({}, { actionContainer: 'article[' });
+    expect(container.success).toBe(false);
+    expect(container.error).toBe('Invalid domain "example.com": actionContainer must be a CSS selector');
+  });
+
+  it('import/export round trip: keeps each highlight style', async () => {
+    const styles: HighlightStyle[] = [
+      { type: 'underline', thickness: 3, wavy: true },
+      { type: 'outline', thickness: 1 },
+      { type: 'bold' },
+      { type: 'badge', icon: '💰' },
+    ];
+    for (const style of styles) {
+      const { exported, imported } = await roundTrip([{ ...testGroups[0], style }]);
+      expect(exported.groups[0].style).toEqual(style);
+      expect(imported.success).toBe(true);
+      expect(imported.groups![0].style).toEqual(style);
+    }
+
+    // A plain fill is the default, so it's left out of the file
+    const fill = await roundTrip([{ ...testGroups[0], style: { type: 'fill' } }]);
+    expect(fill.exported.groups[0]).not.toHaveProperty('style');
+    expect(fill.imported.groups![0].style).toBeUndefined();
+  });
+
+  it('import validation: rejects malformed highlight styles', async () => {
+    const malformed: [unknown, string][] = [
+      ['underline', 'style type must be "fill", "underline", "outline", "bold", "badge"'],
+      [{ type: 'strikethrough' }, 'style type must be "fill", "underline", "outline", "bold", "badge"'],
+      [{ type: 'underline', thickness: 7 }, 'style thickness must be a whole number from 1 to 6'],
+      [{ type: 'outline', thickness: 1.5 }, 'style thickness must be a whole number from 1 to 6'],
+      [{ type: 'underline', wavy: 'yes' }, 'style wavy must be true or false'],
+      [{ type: 'badge', icon: ' ' }, 'style icon must be an emoji or a few characters'],
+      [{ type: 'badge', icon: 'a long label' }, 'style icon must be an emoji or a few characters'],
+    ];
+    for (const [style, error] of malformed) {
+      const result = await importWith({ style });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(`Invalid group "Test Group": ${error}`);
+    }
+  });
+
   it('permission code path: domainToHostPatterns(domain) returns valid origins', async () => {
     const { domainToHostPatterns } = await import('./utils/permissions');
 
@@ -1,3 +1,5 @@
+import type { CaseMode, OverlapStrategy, ProximityRule, ProximityScope, GroupTriggers, PatternType, ScoreBadges, GroupAction, HighlightStyle, HighlightStyleType } from '../types';
+
 // Core data types
 export interface Group {
   id: string;
@@ -7,7 +9,21 @@ export interface Group {
   lightTextColor: string;
   darkBgColor: string;
   darkTextColor: string;
+  style?: HighlightStyle;  // Defaults to a filled background ({ type: 'fill' })
   phrases: string[];
+  patterns?: PatternType[];  // Built-in patterns highlighted with the group's colors (omitted: none)
+  caseMode?: CaseMode;  // Defaults to 'auto' (only all-uppercase phrases are case-sensitive)
+  phraseCaseModes?: Record<string, CaseMode>;  // Per-phrase overrides of caseMode
+  weight?: number;  // Score of each match of the group's phrases and patterns (omitted: 0)
+  phraseWeights?: Record<string, number>;  // Per-phrase overrides of weight
+  action?: GroupAction;  // Defaults to 'highlight' (nothing besides highlighting)
+  useRegex?: boolean;  // Read phrases written as /pattern/flags as regular expressions (omitted: literal text)
+  ignoreAccents?: boolean;  // Match phrases regardless of accents ("resume" matches "résumé")
+  matchWordForms?: boolean;  // Match other English word forms ("review" matches "reviewed")
+  fuzzyDistance?: number;  // Also highlight near-misses within this many typos (omitted or 0: off)
+  proximityRules?: ProximityRule[];  // Only highlight some phrases when another phrase is nearby
+  excludePhrases?: string[];  // Don't highlight the group's phrases where these match ("test" in "A/B test")
+  triggers?: GroupTriggers;  // Only highlight on pages that mention these (omitted: every page)
 }
 
 export interface Domain {
@@ -17,6 +33,11 @@ export interface Domain {
   mode: 'light' | 'dark';
   groups?: string[];  // List of group names (optional, omit for "all enabled groups")
   groupMode?: 'only' | 'except';  // Defaults to 'only' if groups specified
+  matchAcrossElements?: boolean;  // Match phrases split across inline elements ("code <b>review</b>")
+  matchInWorker?: boolean;  // Find matches in a Web Worker so heavy pages stay responsive
+  overlapStrategy?: OverlapStrategy;  // Defaults to 'priority-wins'
+  scoreBadges?: ScoreBadges;  // Show the score of each region of the page (omitted: off)
+  actionContainer?: string;  // CSS selector for the element group actions apply to (omitted: the paragraph)
 }
 
 // Export format types (user-friendly, no IDs)
@@ -27,7 +48,21 @@ export interface ExportGroup {
   lightText: string;
   darkBg: string;
   darkText: string;
+  style?: HighlightStyle;  // Optional: defaults to { type: 'fill' }
   phrases: string[];
+  patterns?: PatternType[];  // Optional: built-in patterns like 'email' or 'salary'
+  caseMode?: CaseMode;  // Optional: defaults to 'auto'
+  phraseCaseModes?: Record<string, CaseMode>;  // Optional: per-phrase overrides, keyed by phrase
+  weight?: number;  // Optional: whole number added to a region's score per match, defaults to 0
+  phraseWeights?: Record<string, number>;  // Optional: per-phrase overrides, keyed by phrase
+  action?: GroupAction;  // Optional: 'dim', 'blur', 'hide' or 'outline-container', defaults to 'highlight'
+  useRegex?: boolean;  // Optional: defaults to false (phrases like "/r/" are plain text)
+  ignoreAccents?: boolean;  // Optional: defaults to false
+  matchWordForms?: boolean;  // Optional: defaults to false
+  fuzzyDistance?: number;  // Optional: 1-3, omitted means exact matching only
+  proximityRules?: ProximityRule[];  // Optional: omitted means phrases are always highlighted
+  excludePhrases?: string[];  // Optional: phrases that suppress the group's matches they overlap
+  triggers?: GroupTriggers;  // Optional: omitted means the group is active on every page
 }
 
 export interface ExportDomain {
@@ -36,6 +71,11 @@ export interface ExportDomain {
   mode: 'light' | 'dark';
   groups?: string[];  // Optional: group names (omit for "all enabled groups")
   groupMode?: 'only' | 'except';  // Optional: defaults to 'only' if groups specified
+  matchAcrossElements?: boolean;  // Optional: defaults to false
+  matchInWorker?: boolean;  // Optional: defaults to false
+  overlapStrategy?: OverlapStrategy;  // Optional: defaults to 'priority-wins'
+  scoreBadges?: ScoreBadges;  // Optional: omitted means no score badges
+  actionContainer?: string;  // Optional: CSS selector, omitted means group actions apply to the paragraph
 }
 
 export interface ExportData {
@@ -43,5 +83,7 @@ export interface ExportData {
   domains: ExportDomain[];
 }
 
+export type { CaseMode, OverlapStrategy, ProximityRule, ProximityScope, GroupTriggers, PatternType, ScoreBadges, GroupAction, HighlightStyle, HighlightStyleType };
+
 // Browser API - re-export from centralized module
 export { browserAPI } from '../browserApi';
@@ -40,3 +40,13 @@ export function showToast(message: string, type: 'success' | 'warning' = 'succes
     setTimeout(() => toast.classList.remove('show'), 3000);
   }
 }
+
+// True if selector is a CSS selector the browser understands
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
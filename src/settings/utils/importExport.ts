@@ -3,8 +3,11 @@
  */
 
 import JSON5 from 'json5';
-import type { Group, Domain, ExportGroup, ExportDomain, ExportData } from '../types';
+import type { Group, Domain, ExportGroup, ExportDomain, ExportData, CaseMode, OverlapStrategy, ProximityRule, ScoreBadges, GroupAction, HighlightStyle } from '../types';
 import { saveGroups, saveDomains } from './storage';
+import { isValidSelector } from './dom';
+import { PATTERN_TYPES, isPatternType } from '../../patterns';
+import { HIGHLIGHT_STYLE_TYPES, MAX_HIGHLIGHT_THICKNESS, isHighlightStyleType } from '../../highlightStyles';
 
 export async function exportData(groups: Group[], domains: Domain[]): Promise<string> {
   // Convert to export format (no IDs, name-based references)
@@ -17,10 +20,53 @@ export async function exportData(groups: Group[], domains: Domain[]): Promise<st
       darkText: g.darkTextColor,
       phrases: g.phrases,
     };
+    if (g.style && g.style.type !== 'fill') {
+      group.style = g.style;
+    }
+    if (g.patterns && g.patterns.length > 0) {
+      group.patterns = g.patterns;
+    }
     // Only include enabled field if it's false (true is default, no need to clutter config)
     if (!g.enabled) {
       group.enabled = false;
     }
+    // Only include case settings when they differ from the 'auto' default
+    if (g.caseMode && g.caseMode !== 'auto') {
+      group.caseMode = g.caseMode;
+    }
+    if (g.phraseCaseModes && Object.keys(g.phraseCaseModes).length > 0) {
+      group.phraseCaseModes = g.phraseCaseModes;
+    }
+    if (g.weight) {
+      group.weight = g.weight;
+    }
+    if (g.phraseWeights && Object.keys(g.phraseWeights).length > 0) {
+      group.phraseWeights = g.phraseWeights;
+    }
+    if (g.action && g.action !== 'highlight') {
+      group.action = g.action;
+    }
+    if (g.useRegex) {
+      group.useRegex = true;
+    }
+    if (g.ignoreAccents) {
+      group.ignoreAccents = true;
+    }
+    if (g.matchWordForms) {
+      group.matchWordForms = true;
+    }
+    if (g.fuzzyDistance) {
+      group.fuzzyDistance = g.fuzzyDistance;
+    }
+    if (g.proximityRules && g.proximityRules.length > 0) {
+      group.proximityRules = g.proximityRules;
+    }
+    if (g.excludePhrases && g.excludePhrases.length > 0) {
+      group.excludePhrases = g.excludePhrases;
+    }
+    if (g.triggers && (g.triggers.phrases?.length || g.triggers.titles?.length)) {
+      group.triggers = g.triggers;
+    }
     return group;
   });
 
@@ -41,6 +87,21 @@ export async function exportData(groups: Group[], domains: Domain[]): Promise<st
         domain.groupMode = d.groupMode;
       }
     }
+    if (d.matchAcrossElements) {
+      domain.matchAcrossElements = true;
+    }
+    if (d.matchInWorker) {
+      domain.matchInWorker = true;
+    }
+    if (d.overlapStrategy && d.overlapStrategy !== 'priority-wins') {
+      domain.overlapStrategy = d.overlapStrategy;
+    }
+    if (d.scoreBadges) {
+      domain.scoreBadges = d.scoreBadges;
+    }
+    if (d.actionContainer) {
+      domain.actionContainer = d.actionContainer;
+    }
     return domain;
   });
 
@@ -50,6 +111,81 @@ export async function exportData(groups: Group[], domains: Domain[]): Promise<st
   return JSON5.stringify(data, null, 2);
 }
 
+const MAX_FUZZY_DISTANCE = 3;
+
+function isCaseMode(value: unknown): value is CaseMode {
+  return value === 'auto' || value === 'sensitive' || value === 'insensitive';
+}
+
+function isOverlapStrategy(value: unknown): value is OverlapStrategy {
+  return value === 'priority-wins' || value === 'longest-wins' || value === 'nested';
+}
+
+function isGroupAction(value: unknown): value is GroupAction {
+  return value === 'highlight' || value === 'dim' || value === 'blur' || value === 'hide' || value === 'outline-container';
+}
+
+function isPhraseList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(phrase => typeof phrase === 'string');
+}
+
+// Describe what's wrong with an imported highlight style, or null if it's valid
+function highlightStyleError(style: HighlightStyle): string | null {
+  if (typeof style !== 'object' || style === null || !isHighlightStyleType(style.type)) {
+    return `style type must be ${HIGHLIGHT_STYLE_TYPES.map(type => `"${type}"`).join(', ')}`;
+  }
+  if (style.thickness !== undefined &&
+    !(Number.isInteger(style.thickness) && style.thickness >= 1 && style.thickness <= MAX_HIGHLIGHT_THICKNESS)) {
+    return `style thickness must be a whole number from 1 to ${MAX_HIGHLIGHT_THICKNESS}`;
+  }
+  if (style.wavy !== undefined && typeof style.wavy !== 'boolean') {
+    return 'style wavy must be true or false';
+  }
+  if (style.icon !== undefined && !(typeof style.icon === 'string' && style.icon.trim() !== '' && style.icon.length <= 8)) {
+    return 'style icon must be an emoji or a few characters';
+  }
+  return null;
+}
+
+// Describe what's wrong with imported score badge settings, or null if they're valid
+function scoreBadgesError(scoreBadges: ScoreBadges): string | null {
+  if (typeof scoreBadges !== 'object' || scoreBadges === null) {
+    return 'scoreBadges must be an object';
+  }
+  if (typeof scoreBadges.container !== 'string' || !isValidSelector(scoreBadges.container)) {
+    return 'scoreBadges container must be a CSS selector';
+  }
+  for (const threshold of ['goodAt', 'badAt'] as const) {
+    if (scoreBadges[threshold] !== undefined && !Number.isInteger(scoreBadges[threshold])) {
+      return `scoreBadges ${threshold} must be a whole number`;
+    }
+  }
+  if ((scoreBadges.badAt ?? -1) >= (scoreBadges.goodAt ?? 1)) {
+    return 'scoreBadges badAt must be below goodAt';
+  }
+  return null;
+}
+
+// Describe what's wrong with an imported proximity rule, or null if it's valid
+function proximityRuleError(rule: ProximityRule, phrases: string[]): string | null {
+  if (typeof rule !== 'object' || rule === null) {
+    return 'proximity rules must be objects';
+  }
+  if (typeof rule.phrase !== 'string' || !phrases.includes(rule.phrase)) {
+    return `proximity rule phrase "${rule.phrase}" must be one of the group's phrases`;
+  }
+  if (typeof rule.near !== 'string' || rule.near.trim() === '') {
+    return `proximity rule for "${rule.phrase}" is missing its "near" phrase`;
+  }
+  if (rule.scope !== 'words' && rule.scope !== 'element') {
+    return `proximity rule for "${rule.phrase}": scope must be "words" or "element"`;
+  }
+  if (rule.scope === 'words' && !(Number.isInteger(rule.words) && rule.words! > 0)) {
+    return `proximity rule for "${rule.phrase}": words must be a whole number above 0`;
+  }
+  return null;
+}
+
 export async function importData(jsonString: string): Promise<{ success: boolean; groups?: Group[]; domains?: Domain[]; error?: string }> {
   try {
     // Parse with JSON5 to support relaxed syntax
@@ -75,9 +211,77 @@ export async function importData(jsonString: string): Promise<{ success: boolean
         return { success: false, error: `Invalid group "${exportGroup.name}": missing color fields` };
       }
 
+      // Validate case settings if specified
+      if (exportGroup.caseMode !== undefined && !isCaseMode(exportGroup.caseMode)) {
+        return { success: false, error: `Invalid group "${exportGroup.name}": caseMode must be "auto", "sensitive", or "insensitive"` };
+      }
+      if (exportGroup.phraseCaseModes !== undefined) {
+        for (const [phrase, caseMode] of Object.entries(exportGroup.phraseCaseModes)) {
+          if (!isCaseMode(caseMode)) {
+            return { success: false, error: `Invalid group "${exportGroup.name}": case mode for phrase "${phrase}" must be "auto", "sensitive", or "insensitive"` };
+          }
+        }
+      }
+      if (exportGroup.useRegex !== undefined && typeof exportGroup.useRegex !== 'boolean') {
+        return { success: false, error: `Invalid group "${exportGroup.name}": useRegex must be true or false` };
+      }
+      if (exportGroup.ignoreAccents !== undefined && typeof exportGroup.ignoreAccents !== 'boolean') {
+        return { success: false, error: `Invalid group "${exportGroup.name}": ignoreAccents must be true or false` };
+      }
+      if (exportGroup.matchWordForms !== undefined && typeof exportGroup.matchWordForms !== 'boolean') {
+        return { success: false, error: `Invalid group "${exportGroup.name}": matchWordForms must be true or false` };
+      }
+      if (exportGroup.fuzzyDistance !== undefined &&
+        !(Number.isInteger(exportGroup.fuzzyDistance) && exportGroup.fuzzyDistance >= 0 && exportGroup.fuzzyDistance <= MAX_FUZZY_DISTANCE)) {
+        return { success: false, error: `Invalid group "${exportGroup.name}": fuzzyDistance must be a whole number from 0 to ${MAX_FUZZY_DISTANCE}` };
+      }
+      if (exportGroup.weight !== undefined && !Number.isInteger(exportGroup.weight)) {
+        return { success: false, error: `Invalid group "${exportGroup.name}": weight must be a whole number` };
+      }
+      if (exportGroup.phraseWeights !== undefined) {
+        for (const [phrase, weight] of Object.entries(exportGroup.phraseWeights)) {
+          if (!Number.isInteger(weight)) {
+            return { success: false, error: `Invalid group "${exportGroup.name}": weight for phrase "${phrase}" must be a whole number` };
+          }
+        }
+      }
+      if (exportGroup.style !== undefined) {
+        const styleProblem = highlightStyleError(exportGroup.style);
+        if (styleProblem) {
+          return { success: false, error: `Invalid group "${exportGroup.name}": ${styleProblem}` };
+        }
+      }
+      if (exportGroup.action !== undefined && !isGroupAction(exportGroup.action)) {
+        return { success: false, error: `Invalid group "${exportGroup.name}": action must be "highlight", "dim", "blur", "hide", or "outline-container"` };
+      }
+      if (exportGroup.patterns !== undefined &&
+        !(Array.isArray(exportGroup.patterns) && exportGroup.patterns.every(isPatternType))) {
+        return { success: false, error: `Invalid group "${exportGroup.name}": patterns must be a list of ${PATTERN_TYPES.map(type => `"${type}"`).join(', ')}` };
+      }
+      if (exportGroup.excludePhrases !== undefined && !isPhraseList(exportGroup.excludePhrases)) {
+        return { success: false, error: `Invalid group "${exportGroup.name}": excludePhrases must be a list of phrases` };
+      }
+      if (exportGroup.triggers !== undefined) {
+        const { phrases, titles } = exportGroup.triggers;
+        if ((phrases !== undefined && !isPhraseList(phrases)) || (titles !== undefined && !isPhraseList(titles))) {
+          return { success: false, error: `Invalid group "${exportGroup.name}": triggers must have "phrases" and/or "titles" lists` };
+        }
+      }
+      if (exportGroup.proximityRules !== undefined) {
+        if (!Array.isArray(exportGroup.proximityRules)) {
+          return { success: false, error: `Invalid group "${exportGroup.name}": proximityRules must be a list` };
+        }
+        for (const rule of exportGroup.proximityRules) {
+          const ruleError = proximityRuleError(rule, exportGroup.phrases);
+          if (ruleError) {
+            return { success: false, error: `Invalid group "${exportGroup.name}": ${ruleError}` };
+          }
+        }
+      }
+
       const id = crypto.randomUUID();
 
-      newGroups.push({
+      const newGroup: Group = {
         id,
         name: exportGroup.name,
         enabled: exportGroup.enabled !== false,  // Default to true if not specified
@@ -86,7 +290,75 @@ export async function importData(jsonString: string): Promise<{ success: boolean
         darkBgColor: exportGroup.darkBg,
         darkTextColor: exportGroup.darkText,
         phrases: exportGroup.phrases,
-      });
+      };
+
+      if (exportGroup.style && exportGroup.style.type !== 'fill') {
+        const { type, thickness, wavy, icon } = exportGroup.style;
+        newGroup.style = {
+          type,
+          ...(thickness !== undefined ? { thickness } : {}),
+          ...(wavy ? { wavy } : {}),
+          ...(icon !== undefined ? { icon } : {}),
+        };
+      }
+      if (exportGroup.patterns && exportGroup.patterns.length > 0) {
+        newGroup.patterns = [...new Set(exportGroup.patterns)];
+      }
+      // Only include case settings if specified (omitted means 'auto')
+      if (exportGroup.caseMode && exportGroup.caseMode !== 'auto') {
+        newGroup.caseMode = exportGroup.caseMode;
+      }
+      // Keep overrides only for phrases that are actually in the group
+      const phraseCaseModes = Object.entries(exportGroup.phraseCaseModes || {})
+        .filter(([phrase]) => exportGroup.phrases.includes(phrase));
+      if (phraseCaseModes.length > 0) {
+        newGroup.phraseCaseModes = Object.fromEntries(phraseCaseModes);
+      }
+      if (exportGroup.weight) {
+        newGroup.weight = exportGroup.weight;
+      }
+      const phraseWeights = Object.entries(exportGroup.phraseWeights || {})
+        .filter(([phrase]) => exportGroup.phrases.includes(phrase));
+      if (phraseWeights.length > 0) {
+        newGroup.phraseWeights = Object.fromEntries(phraseWeights);
+      }
+      if (exportGroup.action && exportGroup.action !== 'highlight') {
+        newGroup.action = exportGroup.action;
+      }
+      if (exportGroup.useRegex) {
+        newGroup.useRegex = true;
+      }
+      if (exportGroup.ignoreAccents) {
+        newGroup.ignoreAccents = true;
+      }
+      if (exportGroup.matchWordForms) {
+        newGroup.matchWordForms = true;
+      }
+      if (exportGroup.fuzzyDistance) {
+        newGroup.fuzzyDistance = exportGroup.fuzzyDistance;
+      }
+      const excludePhrases = (exportGroup.excludePhrases || []).filter(phrase => phrase.trim() !== '');
+      if (excludePhrases.length > 0) {
+        newGroup.excludePhrases = excludePhrases;
+      }
+      const triggerPhrases = (exportGroup.triggers?.phrases || []).filter(phrase => phrase.trim() !== '');
+      const triggerTitles = (exportGroup.triggers?.titles || []).filter(phrase => phrase.trim() !== '');
+      if (triggerPhrases.length > 0 || triggerTitles.length > 0) {
+        newGroup.triggers = {
+          ...(triggerPhrases.length > 0 ? { phrases: triggerPhrases } : {}),
+          ...(triggerTitles.length > 0 ? { titles: triggerTitles } : {}),
+        };
+      }
+      if (exportGroup.proximityRules && exportGroup.proximityRules.length > 0) {
+        newGroup.proximityRules = exportGroup.proximityRules.map(rule => ({
+          phrase: rule.phrase,
+          near: rule.near,
+          scope: rule.scope,
+          ...(rule.scope === 'words' ? { words: rule.words } : {}),
+        }));
+      }
+
+      newGroups.push(newGroup);
     }
 
     // Convert domains to internal format
@@ -117,6 +389,26 @@ export async function importData(jsonString: string): Promise<{ success: boolean
         return { success: false, error: `Invalid domain "${domainField}": groupMode must be "only" or "except"` };
       }
 
+      if (exportDomain.matchAcrossElements !== undefined && typeof exportDomain.matchAcrossElements !== 'boolean') {
+        return { success: false, error: `Invalid domain "${domainField}": matchAcrossElements must be true or false` };
+      }
+      if (exportDomain.matchInWorker !== undefined && typeof exportDomain.matchInWorker !== 'boolean') {
+        return { success: false, error: `Invalid domain "${domainField}": matchInWorker must be true or false` };
+      }
+      if (exportDomain.overlapStrategy !== undefined && !isOverlapStrategy(exportDomain.overlapStrategy)) {
+        return { success: false, error: `Invalid domain "${domainField}": overlapStrategy must be "priority-wins", "longest-wins", or "nested"` };
+      }
+      if (exportDomain.actionContainer !== undefined &&
+        !(typeof exportDomain.actionContainer === 'string' && isValidSelector(exportDomain.actionContainer))) {
+        return { success: false, error: `Invalid domain "${domainField}": actionContainer must be a CSS selector` };
+      }
+      if (exportDomain.scoreBadges !== undefined) {
+        const scoreBadgesProblem = scoreBadgesError(exportDomain.scoreBadges);
+        if (scoreBadgesProblem) {
+          return { success: false, error: `Invalid domain "${domainField}": ${scoreBadgesProblem}` };
+        }
+      }
+
       // Validate group references if specified
       if (exportDomain.groups && exportDomain.groups.length > 0) {
         for (const groupName of exportDomain.groups) {
@@ -159,6 +451,26 @@ export async function importData(jsonString: string): Promise<{ success: boolean
         newDomain.groups = exportDomain.groups;
         newDomain.groupMode = exportDomain.groupMode || 'only';  // Default to 'only'
       }
+      if (exportDomain.matchAcrossElements) {
+        newDomain.matchAcrossElements = true;
+      }
+      if (exportDomain.matchInWorker) {
+        newDomain.matchInWorker = true;
+      }
+      if (exportDomain.overlapStrategy && exportDomain.overlapStrategy !== 'priority-wins') {
+        newDomain.overlapStrategy = exportDomain.overlapStrategy;
+      }
+      if (exportDomain.actionContainer) {
+        newDomain.actionContainer = exportDomain.actionContainer;
+      }
+      if (exportDomain.scoreBadges) {
+        const { container, goodAt, badAt } = exportDomain.scoreBadges;
+        newDomain.scoreBadges = {
+          container,
+          ...(goodAt !== undefined ? { goodAt } : {}),
+          ...(badAt !== undefined ? { badAt } : {}),
+        };
+      }
 
       newDomains.push(newDomain);
     }
@@ -0,0 +1,100 @@
+// English word stemming (Porter, 1980) so inflected forms share a stem:
+// "review", "reviews", "reviewed" and "reviewing" all become "review"
+// Only the inflection steps run: Porter's derivational steps would also merge
+// different words, like "universal" and "university"
+// Runs locally; words that aren't plain lowercase a-z are returned unchanged
+
+const STEMMABLE_WORD = /^[a-z]+$/;
+
+// A letter is a consonant unless it's a vowel, or a "y" after a consonant
+function isConsonant(word: string, i: number): boolean {
+  switch (word[i]) {
+    case 'a': case 'e': case 'i': case 'o': case 'u':
+      return false;
+    case 'y':
+      return i === 0 || !isConsonant(word, i - 1);
+    default:
+      return true;
+  }
+}
+
+// The number of vowel-consonant sequences in word (Porter's "m")
+function measure(word: string): number {
+  let count = 0;
+  let i = 0;
+  while (i < word.length && isConsonant(word, i)) i++;
+  while (i < word.length) {
+    while (i < word.length && !isConsonant(word, i)) i++;
+    if (i >= word.length) break;
+    while (i < word.length && isConsonant(word, i)) i++;
+    count++;
+  }
+  return count;
+}
+
+function hasVowel(word: string): boolean {
+  for (let i = 0; i < word.length; i++) {
+    if (!isConsonant(word, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// Consonant-vowel-consonant ending, where the last consonant isn't w, x or y ("hop", not "snow")
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  if (n < 3) return false;
+  if (!isConsonant(word, n - 3) || isConsonant(word, n - 2) || !isConsonant(word, n - 1)) return false;
+  return !'wxy'.includes(word[n - 1]);
+}
+
+// Plurals and -ed/-ing
+function step1(word: string): string {
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -2);
+  else if (word.endsWith('s') && !word.endsWith('ss')) word = word.slice(0, -1);
+
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : null;
+    if (suffix && hasVowel(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsWithCvc(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i';
+  }
+  return word;
+}
+
+// Tidy up a final "e" and double "l"
+function step5(word: string): string {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) word = stem;
+  }
+  if (word.endsWith('ll') && measure(word) > 1) {
+    word = word.slice(0, -1);
+  }
+  return word;
+}
+
+// Stem a lowercase English word
+export function stem(word: string): string {
+  if (word.length <= 2 || !STEMMABLE_WORD.test(word)) return word;
+  return step5(step1(word));
+}
@@ -1,3 +1,55 @@
+// How phrase capitalization is matched: 'auto' makes only all-uppercase phrases case-sensitive
+export type CaseMode = 'auto' | 'sensitive' | 'insensitive';
+
+// What happens when matches overlap: the earlier group wins, the longest match wins,
+// or matches inside other matches are highlighted too
+export type OverlapStrategy = 'priority-wins' | 'longest-wins' | 'nested';
+
+// Where a proximity rule looks for its nearby phrase: within some number of words,
+// or anywhere in the same block element (paragraph, list item, table cell...)
+export type ProximityScope = 'words' | 'element';
+
+// Only highlight `phrase` when `near` is found close to it
+export interface ProximityRule {
+  phrase: string;  // One of the group's phrases
+  near: string;  // Phrase to look for, matched with the group's settings (can be a regex or wildcard)
+  scope: ProximityScope;
+  words?: number;  // With 'words' scope: at most this many words in between
+}
+
+// Page conditions for a group: its phrases are only highlighted once the page text
+// contains one of `phrases` or its title matches one of `titles` (plain, wildcard or regex)
+export interface GroupTriggers {
+  phrases?: string[];
+  titles?: string[];
+}
+
+// Score badges for a domain: each element matching `container` (a job card, a search
+// result) shows the total weight of the phrases highlighted in it, colored by the thresholds
+export interface ScoreBadges {
+  container: string;  // CSS selector, e.g. ".job-card-container"
+  goodAt?: number;  // Green at or above this score (default 1)
+  badAt?: number;  // Red at or below this score (default -1)
+}
+
+// How a group's matches are drawn: filled with its background color (the default),
+// underlined, outlined, in bold, or marked with an icon in front
+export type HighlightStyleType = 'fill' | 'underline' | 'outline' | 'bold' | 'badge';
+
+export interface HighlightStyle {
+  type: HighlightStyleType;
+  thickness?: number;  // Underline and outline width in pixels (default 2)
+  wavy?: boolean;  // Wavy underline, like a spell checker's
+  icon?: string;  // Badge icon: an emoji or character (default '●')
+}
+
+// What a group does besides highlighting its matches: dim, blur, hide or outline the
+// element around them (the domain's action container, or else the paragraph)
+export type GroupAction = 'highlight' | 'dim' | 'blur' | 'hide' | 'outline-container';
+
+// Built-in patterns a group can highlight besides its phrases (see patterns.ts)
+export type PatternType = 'email' | 'currency' | 'salary' | 'date' | 'version';
+
 export interface Group {
   id: string;
   name: string;
@@ -6,7 +58,21 @@ export interface Group {
   lightTextColor: string;
   darkBgColor: string;
   darkTextColor: string;
+  style?: HighlightStyle;  // Defaults to a filled background ({ type: 'fill' })
   phrases: string[];
+  patterns?: PatternType[];  // Built-in patterns highlighted with the group's colors (omitted: none)
+  caseMode?: CaseMode;  // Defaults to 'auto' (only all-uppercase phrases are case-sensitive)
+  phraseCaseModes?: Record<string, CaseMode>;  // Per-phrase overrides of caseMode
+  weight?: number;  // Score of each match of the group's phrases and patterns (omitted: 0)
+  phraseWeights?: Record<string, number>;  // Per-phrase overrides of weight
+  action?: GroupAction;  // Defaults to 'highlight' (nothing besides highlighting)
+  useRegex?: boolean;  // Read phrases written as /pattern/flags as regular expressions (omitted: literal text)
+  ignoreAccents?: boolean;  // Match phrases regardless of accents ("resume" matches "résumé")
+  matchWordForms?: boolean;  // Match other English word forms ("review" matches "reviewed")
+  fuzzyDistance?: number;  // Also highlight near-misses within this many typos (omitted or 0: off)
+  proximityRules?: ProximityRule[];  // Only highlight some phrases when another phrase is nearby
+  excludePhrases?: string[];  // Don't highlight the group's phrases where these match ("test" in "A/B test")
+  triggers?: GroupTriggers;  // Only highlight on pages that mention these (omitted: every page)
 }
 
 export interface Domain {
@@ -16,6 +82,11 @@ export interface Domain {
   mode: 'light' | 'dark';
   groups?: string[];  // List of group names (optional, omit for "all enabled groups")
   groupMode?: 'only' | 'except';  // Defaults to 'only' if groups specified
+  matchAcrossElements?: boolean;  // Match phrases split across inline elements ("code <b>review</b>")
+  matchInWorker?: boolean;  // Find matches in a Web Worker so heavy pages stay responsive
+  overlapStrategy?: OverlapStrategy;  // Defaults to 'priority-wins'
+  scoreBadges?: ScoreBadges;  // Show the score of each region of the page (omitted: off)
+  actionContainer?: string;  // CSS selector for the element group actions apply to (omitted: the paragraph)
 }
 
 export interface StorageData {